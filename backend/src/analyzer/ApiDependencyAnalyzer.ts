@@ -0,0 +1,89 @@
+import { PageMetadata } from "../crawler/types";
+import { ApiDependencies, ApiEndpoint } from "./types";
+
+/**
+ * Groups the API calls recorded per page into endpoints
+ *
+ * Calls are keyed by method and path template, so /api/orders/17 and
+ * /api/orders/42 count as one GET /api/orders/:id endpoint.
+ */
+export class ApiDependencyAnalyzer {
+	/**
+	 * Build the endpoint list and the page -> endpoints view
+	 */
+	analyze(pages: Map<string, PageMetadata>): ApiDependencies {
+		const endpoints = new Map<string, ApiEndpoint>();
+		const durations = new Map<string, number[]>();
+		const pageEndpoints: ApiDependencies["pages"] = [];
+
+		pages.forEach((page, url) => {
+			const called = new Set<string>();
+
+			(page.apiCalls ?? []).forEach((call) => {
+				const id = `${call.method} ${call.template}`;
+				called.add(id);
+
+				if (!endpoints.has(id)) {
+					endpoints.set(id, {
+						id,
+						method: call.method,
+						template: call.template,
+						callCount: 0,
+						statuses: [],
+						failedCount: 0,
+						pages: [],
+					});
+					durations.set(id, []);
+				}
+
+				const endpoint = endpoints.get(id)!;
+				endpoint.callCount++;
+				if (call.failed) endpoint.failedCount++;
+				if (
+					call.status !== undefined &&
+					!endpoint.statuses.includes(call.status)
+				) {
+					endpoint.statuses.push(call.status);
+				}
+				if (call.durationMs !== undefined) {
+					durations.get(id)!.push(call.durationMs);
+				}
+				if (!endpoint.pages.includes(url)) {
+					endpoint.pages.push(url);
+				}
+			});
+
+			if (called.size > 0) {
+				pageEndpoints.push({
+					url,
+					title: page.title,
+					endpoints: Array.from(called).sort(),
+				});
+			}
+		});
+
+		endpoints.forEach((endpoint, id) => {
+			const times = durations.get(id)!;
+			if (times.length > 0) {
+				endpoint.averageDurationMs = Math.round(
+					times.reduce((sum, time) => sum + time, 0) / times.length,
+				);
+			}
+			endpoint.statuses.sort((a, b) => a - b);
+		});
+
+		// Endpoints shared by many screens first
+		const sortedEndpoints = Array.from(endpoints.values()).sort(
+			(a, b) => b.pages.length - a.pages.length || a.id.localeCompare(b.id),
+		);
+
+		if (sortedEndpoints.length > 0) {
+			console.log(`\n🔌 API Dependencies:`);
+			console.log(
+				`   Endpoints: ${sortedEndpoints.length} (called from ${pageEndpoints.length} pages)`,
+			);
+		}
+
+		return { endpoints: sortedEndpoints, pages: pageEndpoints };
+	}
+}
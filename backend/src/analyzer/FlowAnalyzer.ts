@@ -1,7 +1,27 @@
-import { PageMetadata, Link } from "../crawler/types";
-import { FlowNode, FlowEdge, UserFlow, NodeType } from "./types";
+import {
+	PageMetadata,
+	Link,
+	LinkPosition,
+	PageForm,
+	PageState,
+} from "../crawler/types";
+import {
+	FlowNode,
+	FlowEdge,
+	UserFlow,
+	NodeType,
+	EdgeKind,
+	OrphanPage,
+	BrokenLink,
+	FlowAnalysisOptions,
+	PageCluster,
+} from "./types";
 import { NoiseReducer, NoiseReductionResult } from "./NoiseReducer";
-import { UrlUtils } from "../utils/UrlUtils";
+import { UrlClusterer } from "./UrlClusterer";
+import { ApiDependencyAnalyzer } from "./ApiDependencyAnalyzer";
+import { HierarchyBuilder } from "./HierarchyBuilder";
+import { UrlUtils, UrlCanonicalizationRules } from "../utils/UrlUtils";
+import { ImportanceSignals } from "../utils/ImportanceSignals";
 
 /**
  * Analyzes crawled pages and generates meaningful user flow representation
@@ -9,10 +29,21 @@ import { UrlUtils } from "../utils/UrlUtils";
  */
 export class FlowAnalyzer {
 	private noiseReducer: NoiseReducer;
+	private apiDependencyAnalyzer: ApiDependencyAnalyzer;
+	private hierarchyBuilder: HierarchyBuilder;
 	private readonly MAX_NODES_IN_FLOW = 30; // Increased from 25
+	private readonly GLOBAL_FORM_THRESHOLD = 0.5; // Submitted from half the pages
+	private readonly SITE_CHROME_POSITIONS = [
+		LinkPosition.HEADER,
+		LinkPosition.NAVIGATION,
+		LinkPosition.FOOTER,
+		LinkPosition.SIDEBAR,
+	];
 
 	constructor() {
 		this.noiseReducer = new NoiseReducer();
+		this.apiDependencyAnalyzer = new ApiDependencyAnalyzer();
+		this.hierarchyBuilder = new HierarchyBuilder();
 	}
 
 	/**
@@ -46,24 +77,10 @@ export class FlowAnalyzer {
 		}
 
 		// Factor 4: URL patterns indicating importance - higher weights
-		const urlLower = url.toLowerCase();
-		if (urlLower.match(/\/(home|index|dashboard|main)$/)) score += 100;
-		if (urlLower.match(/\/(login|signup|register|auth)/)) score += 80;
-		if (urlLower.match(/\/(checkout|cart|payment|order)/)) score += 80;
-		if (urlLower.match(/\/(product|item|detail)/)) score += 60;
-		if (urlLower.match(/\/(contact|support|help)/)) score += 50;
-		if (urlLower.match(/\/(profile|account|settings)/)) score += 60;
-		if (urlLower.match(/\/(search|results)/)) score += 50;
-		if (urlLower.match(/\/(category|collection|browse)/)) score += 45;
-		if (urlLower.match(/\/(about|info)/)) score += 35;
+		score += ImportanceSignals.scoreUrl(url);
 
 		// Factor 5: Page title keywords
-		const titleLower = page.title.toLowerCase();
-		if (titleLower.match(/(home|dashboard|main|overview)/)) score += 40;
-		if (titleLower.match(/(login|sign in|register|sign up)/)) score += 40;
-		if (titleLower.match(/(checkout|cart|payment)/)) score += 40;
-		if (titleLower.match(/(product|item|detail)/)) score += 30;
-		if (titleLower.match(/(category|collection)/)) score += 25;
+		score += ImportanceSignals.scoreText(page.title);
 
 		// Factor 6: Less penalty for being in global nav
 		if (noiseResult.globalNavigation.has(url)) {
@@ -82,19 +99,35 @@ export class FlowAnalyzer {
 	private buildIncomingLinksMap(
 		pages: Map<string, PageMetadata>,
 		noiseResult: NoiseReductionResult,
+		globalFormActions: Set<string>,
 	): Map<string, number> {
 		const incomingLinks = new Map<string, number>();
 
 		// Use cleaned pages (without noise)
 		noiseResult.cleanedPages.forEach((page) => {
 			page.outgoingLinks.forEach((link) => {
-				// Don't count links to global navigation pages
+				// Don't count links to global navigation pages; calls to action count double
 				if (!noiseResult.globalNavigation.has(link.href)) {
-					incomingLinks.set(link.href, (incomingLinks.get(link.href) || 0) + 1);
+					incomingLinks.set(
+						link.href,
+						(incomingLinks.get(link.href) || 0) +
+							(link.position === LinkPosition.CTA ? 2 : 1),
+					);
 				}
 			});
 		});
 
+		// Form submissions lead somewhere just like links do, site-wide forms aside
+		pages.forEach((page) => {
+			page.forms?.forEach((form) => {
+				if (!this.isPageForm(form, globalFormActions)) return;
+				incomingLinks.set(
+					form.action,
+					(incomingLinks.get(form.action) || 0) + 1,
+				);
+			});
+		});
+
 		return incomingLinks;
 	}
 
@@ -177,10 +210,94 @@ export class FlowAnalyzer {
 		return keyPages;
 	}
 
+	/**
+	 * Check whether a form is a site search box
+	 */
+	private isSearchForm(form: PageForm): boolean {
+		return (
+			form.method === "GET" &&
+			form.fields.some(
+				(field) =>
+					field.type === "search" ||
+					/^(q|query|search|s|keywords?)$/i.test(field.name),
+			)
+		);
+	}
+
+	/**
+	 * Form actions submitted from most pages (site search, newsletter signups),
+	 * which say nothing about where a user is headed
+	 */
+	private findGlobalFormActions(pages: Map<string, PageMetadata>): Set<string> {
+		const pageCounts = new Map<string, number>();
+		pages.forEach((page) => {
+			new Set(page.forms?.map((form) => form.action)).forEach((action) => {
+				pageCounts.set(action, (pageCounts.get(action) || 0) + 1);
+			});
+		});
+
+		const globalActions = new Set<string>();
+		pageCounts.forEach((count, action) => {
+			if (pages.size > 2 && count / pages.size >= this.GLOBAL_FORM_THRESHOLD) {
+				globalActions.add(action);
+			}
+		});
+		return globalActions;
+	}
+
+	/**
+	 * Check whether a form belongs to the page rather than the site chrome
+	 */
+	private isPageForm(form: PageForm, globalFormActions: Set<string>): boolean {
+		return (
+			!this.SITE_CHROME_POSITIONS.includes(form.position) &&
+			!globalFormActions.has(form.action)
+		);
+	}
+
+	/**
+	 * Infer node type from the page's own forms, ignoring site-wide search and
+	 * header/footer forms (newsletter signups and the like)
+	 */
+	private inferNodeTypeFromForms(forms: PageForm[]): NodeType | null {
+		const pageForms = forms.filter(
+			(form) =>
+				!this.isSearchForm(form) &&
+				!this.SITE_CHROME_POSITIONS.includes(form.position),
+		);
+
+		const hasField = (pattern: RegExp) =>
+			pageForms.some((form) =>
+				form.fields.some(
+					(field) => pattern.test(field.name) || pattern.test(field.type),
+				),
+			);
+
+		if (hasField(/card|cc-?(number|num|exp)|cvc|cvv|billing|payment/i)) {
+			return NodeType.TRANSACTION;
+		}
+
+		if (
+			hasField(/^password$/i) ||
+			pageForms.some(
+				(form) =>
+					form.fields.filter((field) => field.type !== "hidden").length >= 2,
+			)
+		) {
+			return NodeType.FORM;
+		}
+
+		return null;
+	}
+
 	/**
 	 * Infer node type based on URL patterns and content
 	 */
-	private inferNodeType(url: string, pageTitle: string): NodeType {
+	private inferNodeType(
+		url: string,
+		pageTitle: string,
+		forms: PageForm[] = [],
+	): NodeType {
 		const urlLower = url.toLowerCase();
 		const titleLower = pageTitle.toLowerCase();
 
@@ -194,6 +311,12 @@ export class FlowAnalyzer {
 			return NodeType.ENTRY;
 		}
 
+		// Forms present on the page outrank URL guesses
+		const formType = this.inferNodeTypeFromForms(forms);
+		if (formType) {
+			return formType;
+		}
+
 		// Forms and interactions
 		if (
 			urlLower.includes("/login") ||
@@ -257,6 +380,7 @@ export class FlowAnalyzer {
 	private buildNodes(
 		pages: Map<string, PageMetadata>,
 		keyPages: Set<string>,
+		clusters: Map<string, PageCluster>,
 	): Map<string, FlowNode> {
 		const nodes = new Map<string, FlowNode>();
 
@@ -266,8 +390,9 @@ export class FlowAnalyzer {
 
 			const nodeId = url;
 			const label = this.generateNodeLabel(url, page.title);
-			const type = this.inferNodeType(url, page.title);
+			const type = this.inferNodeType(url, page.title, page.forms);
 			const pathSegments = UrlUtils.getPathSegments(url);
+			const cluster = clusters.get(url);
 
 			nodes.set(nodeId, {
 				id: nodeId,
@@ -278,6 +403,15 @@ export class FlowAnalyzer {
 					depth: page.depth,
 					pageTitle: page.title,
 					pathSegments,
+					aliases: page.aliases ?? [],
+					cluster: cluster
+						? {
+								template: cluster.template,
+								memberCount: cluster.members.length,
+								exampleUrls: cluster.exampleUrls,
+							}
+						: undefined,
+					screenshots: page.screenshots,
 				},
 			});
 		});
@@ -285,6 +419,32 @@ export class FlowAnalyzer {
 		return nodes;
 	}
 
+	/**
+	 * Weight of a single link from its rendered layout and semantic position;
+	 * 1 for an ordinary link that was not measured
+	 */
+	private getLinkProminence(link: Link): number {
+		const prominence = link.prominence;
+		if (prominence && !prominence.visible) return 0.25;
+
+		let score = 1;
+		if (prominence) {
+			if (prominence.aboveFold) score += 0.5;
+			if (prominence.buttonStyled) score += 1;
+
+			// Larger-than-body text and big click targets stand out
+			score += Math.min(Math.max(prominence.fontSize / 16 - 1, 0), 1);
+			score += Math.min((prominence.width * prominence.height) / 20000, 1);
+		}
+
+		// A call to action is the step the page wants taken, styled or not
+		if (link.position === LinkPosition.CTA && !prominence?.buttonStyled) {
+			score += 1;
+		}
+
+		return score;
+	}
+
 	/**
 	 * Build edges only between key pages (no global nav edges)
 	 */
@@ -292,8 +452,19 @@ export class FlowAnalyzer {
 		pages: Map<string, PageMetadata>,
 		keyPages: Set<string>,
 		noiseResult: NoiseReductionResult,
+		globalFormActions: Set<string>,
 	): FlowEdge[] {
-		const edgeMap = new Map<string, { count: number; label: string }>();
+		const edgeMap = new Map<
+			string,
+			{
+				source: string;
+				target: string;
+				kind: EdgeKind;
+				weight: number;
+				label: string;
+				labelProminence: number;
+			}
+		>();
 
 		// Use cleaned pages (global nav already removed)
 		noiseResult.cleanedPages.forEach((page, sourceUrl) => {
@@ -303,40 +474,82 @@ export class FlowAnalyzer {
 				// Only create edges between key pages
 				if (!keyPages.has(link.href)) return;
 
-				const edgeKey = `${sourceUrl}::${link.href}`;
+				// Links between members of the same cluster are not flow steps
+				if (link.href === sourceUrl) return;
+
+				const edgeKey = `${sourceUrl}::${link.href}::${EdgeKind.LINK}`;
 
 				if (!edgeMap.has(edgeKey)) {
-					edgeMap.set(edgeKey, { count: 0, label: link.text });
+					edgeMap.set(edgeKey, {
+						source: sourceUrl,
+						target: link.href,
+						kind: EdgeKind.LINK,
+						weight: 0,
+						label: link.text,
+						labelProminence: 0,
+					});
 				}
 
 				const edge = edgeMap.get(edgeKey)!;
-				edge.count++;
+				const prominence = this.getLinkProminence(link);
+				edge.weight += prominence;
 
-				// Prefer shorter, more meaningful labels
+				// The most prominent link names the edge; among equals prefer shorter text
 				if (
 					link.text &&
-					link.text.length > 0 &&
-					link.text.length < edge.label.length
+					(prominence > edge.labelProminence ||
+						(prominence === edge.labelProminence &&
+							link.text.length < edge.label.length))
 				) {
 					edge.label = link.text;
+					edge.labelProminence = prominence;
 				}
 			});
 		});
 
+		// "Submits to" edges: a form on the source page targets another key page
+		pages.forEach((page, sourceUrl) => {
+			if (!keyPages.has(sourceUrl)) return;
+
+			page.forms?.forEach((form) => {
+				if (!this.isPageForm(form, globalFormActions)) return;
+				if (!keyPages.has(form.action) || form.action === sourceUrl) return;
+
+				const edgeKey = `${sourceUrl}::${form.action}::${EdgeKind.FORM}`;
+				const label =
+					form.submitText || (this.isSearchForm(form) ? "Search" : "Submit");
+
+				if (!edgeMap.has(edgeKey)) {
+					edgeMap.set(edgeKey, {
+						source: sourceUrl,
+						target: form.action,
+						kind: EdgeKind.FORM,
+						weight: 0,
+						label,
+						labelProminence: 0,
+					});
+				}
+				edgeMap.get(edgeKey)!.weight++;
+			});
+		});
+
 		// Convert to edge array
 		const edges: FlowEdge[] = [];
-		edgeMap.forEach((data, key) => {
-			const [source, target] = key.split("::");
+		edgeMap.forEach((data) => {
 			edges.push({
-				source,
-				target,
-				weight: data.count,
+				source: data.source,
+				target: data.target,
+				weight: Math.round(data.weight * 100) / 100,
 				label: data.label,
+				kind: data.kind,
 			});
 		});
 
 		console.log(`\n🔗 Edge Creation:`);
 		console.log(`   Meaningful edges created: ${edges.length}`);
+		console.log(
+			`   Form submission edges: ${edges.filter((edge) => edge.kind === EdgeKind.FORM).length}`,
+		);
 		console.log(`   (Global navigation edges excluded)`);
 		if (edges.length > 0) {
 			console.log(
@@ -347,25 +560,212 @@ export class FlowAnalyzer {
 		return edges;
 	}
 
+	/**
+	 * Find sitemap-only pages that no crawled page links to
+	 */
+	private identifyOrphanPages(pages: Map<string, PageMetadata>): OrphanPage[] {
+		const linkedUrls = new Set<string>();
+		pages.forEach((page, sourceUrl) => {
+			page.outgoingLinks.forEach((link) => {
+				if (link.href !== sourceUrl) linkedUrls.add(link.href);
+			});
+		});
+
+		const orphans: OrphanPage[] = [];
+		pages.forEach((page, url) => {
+			if (page.sitemapOnly && !linkedUrls.has(url)) {
+				orphans.push({ url, title: page.title });
+			}
+		});
+
+		if (orphans.length > 0) {
+			console.log(`\n🏝️  Orphan pages (sitemap only): ${orphans.length}`);
+		}
+
+		return orphans;
+	}
+
+	/**
+	 * Check whether a page failed to load (HTTP error, timeout, crash)
+	 */
+	private isFailedPage(page: PageMetadata): boolean {
+		return page.state !== undefined && page.state !== PageState.OK;
+	}
+
+	/**
+	 * List every failed target together with the pages and anchors pointing at it
+	 */
+	private identifyBrokenLinks(pages: Map<string, PageMetadata>): BrokenLink[] {
+		const brokenLinks = new Map<string, BrokenLink>();
+
+		pages.forEach((page, url) => {
+			if (!this.isFailedPage(page)) return;
+
+			brokenLinks.set(url, {
+				url,
+				status: page.status,
+				state: page.state!,
+				error: page.error,
+				sources: [],
+			});
+		});
+
+		if (brokenLinks.size === 0) return [];
+
+		pages.forEach((page, sourceUrl) => {
+			page.outgoingLinks.forEach((link) => {
+				const broken = brokenLinks.get(link.href);
+				if (!broken || link.href === sourceUrl) return;
+
+				broken.sources.push({
+					url: sourceUrl,
+					title: page.title,
+					anchorText: link.text,
+				});
+			});
+		});
+
+		console.log(`\n💔 Broken link targets: ${brokenLinks.size}`);
+
+		return Array.from(brokenLinks.values());
+	}
+
+	/**
+	 * Re-key pages and links with the configured canonicalization rules,
+	 * merging pages that collapse onto the same canonical URL
+	 */
+	canonicalizePages(
+		pages: Map<string, PageMetadata>,
+		rules: UrlCanonicalizationRules,
+	): Map<string, PageMetadata> {
+		const canonicalPages = new Map<string, PageMetadata>();
+
+		pages.forEach((page, url) => {
+			const canonicalUrl = UrlUtils.normalize(url, rules);
+			const outgoingLinks = page.outgoingLinks.map((link) => ({
+				...link,
+				href: UrlUtils.normalize(link.href, rules),
+			}));
+			const forms = page.forms?.map((form) => ({
+				...form,
+				action: UrlUtils.normalize(form.action, rules),
+			}));
+
+			const existing = canonicalPages.get(canonicalUrl);
+			if (!existing) {
+				canonicalPages.set(canonicalUrl, {
+					...page,
+					url: canonicalUrl,
+					outgoingLinks,
+					forms,
+					aliases:
+						canonicalUrl !== url
+							? [...(page.aliases ?? []), url]
+							: page.aliases,
+				});
+				return;
+			}
+
+			// Keep the shallowest copy with the links and forms of both, and
+			// remember the other URL as an alias
+			const linkHrefs = new Set(existing.outgoingLinks.map((l) => l.href));
+			const formActions = new Set(existing.forms?.map((f) => f.action));
+			const mergedForms = [
+				...(existing.forms ?? []),
+				...(forms ?? []).filter((form) => !formActions.has(form.action)),
+			];
+			const shallowest = page.depth < existing.depth ? page : existing;
+
+			canonicalPages.set(canonicalUrl, {
+				...shallowest,
+				url: canonicalUrl,
+				outgoingLinks: [
+					...existing.outgoingLinks,
+					...outgoingLinks.filter((link) => !linkHrefs.has(link.href)),
+				],
+				forms: existing.forms || forms ? mergedForms : undefined,
+				aliases: Array.from(
+					new Set([...(existing.aliases ?? []), ...(page.aliases ?? []), url]),
+				).filter((alias) => alias !== canonicalUrl),
+			});
+		});
+
+		if (canonicalPages.size < pages.size) {
+			console.log(
+				`   Canonicalization merged ${pages.size - canonicalPages.size} duplicate pages`,
+			);
+		}
+
+		return canonicalPages;
+	}
+
 	/**
 	 * Main analysis function - extract meaningful flows
 	 */
-	analyze(pages: Map<string, PageMetadata>, startUrl: string): UserFlow {
+	analyze(
+		crawledPages: Map<string, PageMetadata>,
+		startUrl: string,
+		options: FlowAnalysisOptions = {},
+	): UserFlow {
 		console.log("\n🔍 Starting Flow Analysis...");
-		console.log(`   Total pages crawled: ${pages.size}`);
+		console.log(`   Total pages crawled: ${crawledPages.size}`);
+
+		const pages = options.canonicalization
+			? this.canonicalizePages(crawledPages, options.canonicalization)
+			: crawledPages;
 
-		// Step 1: Apply noise reduction with global nav detection
-		const noiseResult = this.noiseReducer.reduceNoise(pages);
+		// Step 0: Report broken targets, then analyze only pages that loaded
+		const brokenLinks = this.identifyBrokenLinks(pages);
+		const loadedPages = new Map(
+			Array.from(pages.entries()).filter(
+				([, page]) => !this.isFailedPage(page),
+			),
+		);
 
-		// Step 2: Build incoming links map (excluding noise)
-		const incomingLinks = this.buildIncomingLinksMap(pages, noiseResult);
+		const orphanPages = this.identifyOrphanPages(loadedPages);
 
-		// Step 3: Identify key pages (excluding global nav)
-		const keyPages = this.identifyKeyPages(pages, noiseResult, incomingLinks);
+		// Step 1: Collapse template-sharing pages (/product/123, /product/456)
+		const clustering = options.clustering?.enabled
+			? new UrlClusterer(options.clustering).cluster(loadedPages)
+			: { pages: loadedPages, clusters: new Map<string, PageCluster>() };
+		const flowPages = clustering.pages;
 
-		// Step 4: Build flow graph with only key pages, no global nav edges
-		const nodes = this.buildNodes(pages, keyPages);
-		const edges = this.buildEdges(pages, keyPages, noiseResult);
+		// Step 2: Apply noise reduction with global nav detection
+		const noiseResult = this.noiseReducer.reduceNoise(flowPages);
+
+		// Step 3: Build incoming links map (excluding noise and site-wide forms)
+		const globalFormActions = this.findGlobalFormActions(flowPages);
+		const incomingLinks = this.buildIncomingLinksMap(
+			flowPages,
+			noiseResult,
+			globalFormActions,
+		);
+
+		// Step 4: Identify key pages (excluding global nav)
+		const keyPages = this.identifyKeyPages(
+			flowPages,
+			noiseResult,
+			incomingLinks,
+		);
+
+		// Step 5: Build flow graph with only key pages, no global nav edges
+		const nodes = this.buildNodes(flowPages, keyPages, clustering.clusters);
+		const edges = this.buildEdges(
+			flowPages,
+			keyPages,
+			noiseResult,
+			globalFormActions,
+		);
+
+		// Step 6: Page -> API view over every loaded page, not just key pages
+		const apiDependencies = this.apiDependencyAnalyzer.analyze(loadedPages);
+
+		// Step 7: Parent/child tree from breadcrumbs and URL paths
+		const hierarchy = this.hierarchyBuilder.build(
+			loadedPages,
+			startUrl,
+			options.canonicalization,
+		);
 
 		console.log(`\n✅ Flow Analysis Complete`);
 		console.log(`   Final flow:`);
@@ -380,6 +780,10 @@ export class FlowAnalyzer {
 		return {
 			nodes: Array.from(nodes.values()),
 			edges,
+			orphanPages,
+			brokenLinks,
+			apiDependencies,
+			hierarchy,
 			metadata: {
 				startUrl,
 				totalPages: pages.size,
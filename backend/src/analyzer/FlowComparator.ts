@@ -0,0 +1,251 @@
+import { ChangeReport, PageMetadata } from "../crawler/types";
+import {
+	EdgeKind,
+	FlowNode,
+	FlowEdge,
+	FlowAnalysisOptions,
+	UserFlow,
+	OrphanPage,
+	BrokenLink,
+	VariantSummary,
+} from "./types";
+import { ApiDependencyAnalyzer } from "./ApiDependencyAnalyzer";
+import { FlowAnalyzer } from "./FlowAnalyzer";
+import { HierarchyBuilder } from "./HierarchyBuilder";
+import { UrlClusterer } from "./UrlClusterer";
+
+/**
+ * One crawl of the same site under different conditions (persona, device...)
+ */
+export interface FlowVariant {
+	name: string;
+	flow: UserFlow;
+	pages: Map<string, PageMetadata>;
+	changes?: ChangeReport;
+}
+
+/**
+ * Union of several variant flows plus which variants reach each node and edge
+ */
+export interface FlowComparison {
+	flow: UserFlow;
+	nodeVariants: Map<string, string[]>;
+	edgeVariants: Map<string, string[]>;
+	summaries: VariantSummary[];
+}
+
+/**
+ * Merges flows from several crawl variants into one combined graph
+ */
+export class FlowComparator {
+	/**
+	 * Key identifying an edge across variants
+	 */
+	static edgeKey(edge: Pick<FlowEdge, "source" | "target" | "kind">): string {
+		return `${edge.source}::${edge.target}::${edge.kind}`;
+	}
+
+	/**
+	 * Combined-flow edges that only the named variant's pages reach; empty
+	 * unless several variants were compared
+	 */
+	static exclusiveEdges(
+		comparison: FlowComparison,
+		name: string,
+	): { source: string; target: string; kind: EdgeKind }[] {
+		if (comparison.summaries.length < 2) return [];
+
+		return comparison.flow.edges
+			.filter((edge) => {
+				const names =
+					comparison.edgeVariants.get(FlowComparator.edgeKey(edge)) ?? [];
+				return names.length === 1 && names[0] === name;
+			})
+			.map(({ source, target, kind }) => ({ source, target, kind }));
+	}
+
+	/**
+	 * Key each variant's crawled pages the way the analyzer keys flow nodes:
+	 * canonical URLs, with cluster members collapsed onto their template.
+	 * Templates are learned from every variant's pages together, so members
+	 * that only one variant crawled still join the cluster another one shows
+	 */
+	private resolvePages(
+		variants: FlowVariant[],
+		options: FlowAnalysisOptions,
+	): Map<string, Map<string, PageMetadata>> {
+		const analyzer = new FlowAnalyzer();
+		const canonical = variants.map(({ name, pages }) => ({
+			name,
+			pages: options.canonicalization
+				? analyzer.canonicalizePages(pages, options.canonicalization)
+				: pages,
+		}));
+
+		if (!options.clustering?.enabled) {
+			return new Map(canonical.map(({ name, pages }) => [name, pages]));
+		}
+
+		const clusterer = new UrlClusterer(options.clustering);
+		const clusters = clusterer.findClusters(
+			new Map(canonical.flatMap(({ pages }) => Array.from(pages.entries()))),
+		);
+		return new Map(
+			canonical.map(({ name, pages }) => [
+				name,
+				clusterer.collapse(pages, clusters),
+			]),
+		);
+	}
+
+	/**
+	 * Build the combined graph and record which variants reach what; pass the
+	 * options the variant flows were analyzed with so pages match their nodes
+	 */
+	compare(
+		variants: FlowVariant[],
+		options: FlowAnalysisOptions = {},
+	): FlowComparison {
+		const nodes = new Map<string, FlowNode>();
+		const edges = new Map<string, FlowEdge>();
+		const nodeVariants = new Map<string, string[]>();
+		const edgeVariants = new Map<string, string[]>();
+		const orphanPages = new Map<string, OrphanPage>();
+		const brokenLinks = new Map<string, BrokenLink>();
+
+		const tag = (map: Map<string, string[]>, key: string, name: string) => {
+			const names = map.get(key) ?? [];
+			if (!names.includes(name)) names.push(name);
+			map.set(key, names);
+		};
+
+		variants.forEach(({ name, flow }) => {
+			flow.nodes.forEach((node) => {
+				const existing = nodes.get(node.id);
+				if (!existing) {
+					nodes.set(node.id, { ...node, metadata: { ...node.metadata } });
+				} else {
+					existing.metadata.depth = Math.min(
+						existing.metadata.depth,
+						node.metadata.depth,
+					);
+				}
+				tag(nodeVariants, node.id, name);
+			});
+
+			flow.edges.forEach((edge) => {
+				const key = FlowComparator.edgeKey(edge);
+				const existing = edges.get(key);
+				if (!existing) {
+					edges.set(key, { ...edge });
+				} else {
+					existing.weight += edge.weight;
+				}
+				tag(edgeVariants, key, name);
+			});
+
+			flow.orphanPages.forEach((page) => orphanPages.set(page.url, page));
+
+			flow.brokenLinks.forEach((broken) => {
+				const existing = brokenLinks.get(broken.url);
+				if (!existing) {
+					brokenLinks.set(broken.url, {
+						...broken,
+						sources: [...broken.sources],
+					});
+					return;
+				}
+				broken.sources.forEach((source) => {
+					if (!existing.sources.some((s) => s.url === source.url)) {
+						existing.sources.push(source);
+					}
+				});
+			});
+		});
+
+		// A node counts as reachable for every variant that crawled the page,
+		// even where it was not selected as a key page
+		const resolvedPages = this.resolvePages(variants, options);
+		nodes.forEach((node) => {
+			resolvedPages.forEach((pages, name) => {
+				if (pages.has(node.id)) tag(nodeVariants, node.id, name);
+			});
+		});
+
+		// Likewise an edge counts for every variant whose crawled source page
+		// links or submits to the target, even where the flow trimmed it
+		resolvedPages.forEach((pages, name) => {
+			const reached = new Set<string>();
+			pages.forEach((page, source) => {
+				page.outgoingLinks.forEach((link) =>
+					reached.add(
+						FlowComparator.edgeKey({
+							source,
+							target: link.href,
+							kind: EdgeKind.LINK,
+						}),
+					),
+				);
+				page.forms?.forEach((form) =>
+					reached.add(
+						FlowComparator.edgeKey({
+							source,
+							target: form.action,
+							kind: EdgeKind.FORM,
+						}),
+					),
+				);
+			});
+			edges.forEach((_edge, key) => {
+				if (reached.has(key)) tag(edgeVariants, key, name);
+			});
+		});
+
+		const summaries = variants.map(({ name, pages, changes }) => {
+			const exclusivePages = Array.from(resolvedPages.get(name)!.values())
+				.filter((page) =>
+					Array.from(resolvedPages).every(
+						([other, otherPages]) =>
+							other === name || !otherPages.has(page.url),
+					),
+				)
+				.map((page) => ({ url: page.url, title: page.title }));
+
+			return { name, pageCount: pages.size, exclusivePages, changes };
+		});
+
+		const allPages = new Set(
+			variants.flatMap(({ pages }) => Array.from(pages.keys())),
+		);
+		const mergedPages = new Map(
+			variants.flatMap(({ pages }) => Array.from(pages.entries())),
+		);
+		const startUrl = variants[0]?.flow.metadata.startUrl ?? "";
+
+		return {
+			flow: {
+				nodes: Array.from(nodes.values()),
+				edges: Array.from(edges.values()),
+				orphanPages: Array.from(orphanPages.values()),
+				brokenLinks: Array.from(brokenLinks.values()),
+				apiDependencies: new ApiDependencyAnalyzer().analyze(mergedPages),
+				hierarchy:
+					mergedPages.size > 0
+						? new HierarchyBuilder().build(mergedPages, startUrl)
+						: undefined,
+				metadata: {
+					startUrl,
+					totalPages: allPages.size,
+					noiseFiltered: Math.max(
+						0,
+						...variants.map(({ flow }) => flow.metadata.noiseFiltered),
+					),
+					crawlTimestamp: Date.now(),
+				},
+			},
+			nodeVariants,
+			edgeVariants,
+			summaries,
+		};
+	}
+}
@@ -0,0 +1,227 @@
+import { LinkPosition, PageMetadata, PageState } from "../crawler/types";
+import { HierarchyConflict, HierarchyNode, SiteHierarchy } from "./types";
+import { UrlUtils, UrlCanonicalizationRules } from "../utils/UrlUtils";
+
+/**
+ * Infers the site's information architecture as a parent/child tree
+ *
+ * Breadcrumb trails are the site's own statement of where a page sits, so
+ * they decide the parent when present: a page's last crumb votes twice for
+ * being its parent, and every crumb votes once for the crumb before it.
+ * Pages without breadcrumbs hang under their closest crawled path ancestor
+ * (/shop/shoes/boot -> /shop/shoes -> /shop), and the start page otherwise.
+ */
+export class HierarchyBuilder {
+	/**
+	 * Build the tree over crawled pages that loaded
+	 */
+	build(
+		crawledPages: Map<string, PageMetadata>,
+		startUrl: string,
+		rules: UrlCanonicalizationRules = {},
+	): SiteHierarchy {
+		const pages = new Map(
+			Array.from(crawledPages.entries()).filter(
+				([, page]) => page.state === undefined || page.state === PageState.OK,
+			),
+		);
+
+		const normalizedStart = UrlUtils.normalize(startUrl, rules);
+		const rootUrl = pages.has(normalizedStart)
+			? normalizedStart
+			: (Array.from(pages.keys())[0] ?? normalizedStart);
+
+		const votes = this.collectBreadcrumbVotes(pages);
+		const pathIndex = this.buildPathIndex(pages);
+
+		const parents = new Map<string, string>();
+		const sources = new Map<string, HierarchyNode["source"]>();
+		const conflicts: HierarchyConflict[] = [];
+
+		// Shallow pages first, so cycle checks see their ancestors already placed
+		const ordered = Array.from(pages.keys())
+			.filter((url) => url !== rootUrl)
+			.sort(
+				(a, b) =>
+					UrlUtils.getPathSegments(a).length -
+						UrlUtils.getPathSegments(b).length || a.localeCompare(b),
+			);
+
+		ordered.forEach((url) => {
+			const pathParent = this.findPathParent(url, pathIndex) ?? rootUrl;
+			const candidates = votes.get(url) ?? new Map<string, number>();
+			const breadcrumbParent = this.pickBreadcrumbParent(
+				candidates,
+				pathParent,
+			);
+
+			const createsCycle = (parent: string) => {
+				for (let current: string | undefined = parent; current;) {
+					if (current === url) return true;
+					current = parents.get(current);
+				}
+				return false;
+			};
+
+			let parent = rootUrl;
+			let source: HierarchyNode["source"] = "path";
+			if (breadcrumbParent && !createsCycle(breadcrumbParent)) {
+				parent = breadcrumbParent;
+				source = "breadcrumb";
+			} else if (!createsCycle(pathParent)) {
+				parent = pathParent;
+			}
+
+			parents.set(url, parent);
+			sources.set(url, source);
+
+			const alternatives = new Set([...candidates.keys()]);
+			if (pathParent !== rootUrl) alternatives.add(pathParent);
+			alternatives.delete(parent);
+			if (alternatives.size > 0) {
+				conflicts.push({
+					url,
+					parent,
+					resolvedBy: source,
+					alternatives: Array.from(alternatives),
+				});
+			}
+		});
+
+		const toNode = (url: string): HierarchyNode => ({
+			url,
+			title: pages.get(url)?.title ?? "",
+			source: url === rootUrl ? "root" : sources.get(url)!,
+			children: ordered
+				.filter((child) => parents.get(child) === url)
+				.sort((a, b) => a.localeCompare(b))
+				.map(toNode),
+		});
+
+		const root = toNode(rootUrl);
+		const fromBreadcrumbs = Array.from(sources.values()).filter(
+			(source) => source === "breadcrumb",
+		).length;
+
+		console.log(`\n🌳 Site Hierarchy:`);
+		console.log(
+			`   ${parents.size + 1} pages, ${fromBreadcrumbs} placed by breadcrumbs, ${conflicts.length} conflicts resolved`,
+		);
+
+		return { root, conflicts };
+	}
+
+	/**
+	 * Parent votes from every page's breadcrumb trail
+	 */
+	private collectBreadcrumbVotes(
+		pages: Map<string, PageMetadata>,
+	): Map<string, Map<string, number>> {
+		const votes = new Map<string, Map<string, number>>();
+		const vote = (child: string, parent: string, weight: number) => {
+			if (child === parent) return;
+			const childVotes = votes.get(child) ?? new Map<string, number>();
+			childVotes.set(parent, (childVotes.get(parent) ?? 0) + weight);
+			votes.set(child, childVotes);
+		};
+
+		pages.forEach((page, url) => {
+			// Crumbs in document order, root first; the current page may be the last
+			const trail = Array.from(
+				new Set(
+					page.outgoingLinks
+						.filter((link) => link.position === LinkPosition.BREADCRUMB)
+						.map((link) => link.href)
+						.filter((href) => href !== url && pages.has(href)),
+				),
+			);
+			if (trail.length === 0) return;
+
+			vote(url, trail[trail.length - 1], 2);
+			for (let i = 1; i < trail.length; i++) {
+				vote(trail[i], trail[i - 1], 1);
+			}
+		});
+
+		return votes;
+	}
+
+	/**
+	 * Most-voted breadcrumb parent; ties go to the path parent, then the shallower page
+	 */
+	private pickBreadcrumbParent(
+		candidates: Map<string, number>,
+		pathParent: string,
+	): string | null {
+		let best: string | null = null;
+		let bestVotes = 0;
+
+		candidates.forEach((count, candidate) => {
+			const better =
+				count > bestVotes ||
+				(count === bestVotes &&
+					best !== null &&
+					best !== pathParent &&
+					(candidate === pathParent ||
+						UrlUtils.getPathSegments(candidate).length <
+							UrlUtils.getPathSegments(best).length));
+			if (better) {
+				best = candidate;
+				bestVotes = count;
+			}
+		});
+
+		return best;
+	}
+
+	/**
+	 * Query-less pages by origin and path segments, so /shop, /shop/ and
+	 * /#/shop all answer for the same place in the tree
+	 */
+	private buildPathIndex(
+		pages: Map<string, PageMetadata>,
+	): Map<string, string> {
+		const index = new Map<string, string>();
+
+		pages.forEach((_, url) => {
+			const parsed = new URL(url);
+			if (parsed.search) return;
+
+			const key = this.pathKey(parsed.origin, UrlUtils.getPathSegments(url));
+			if (!index.has(key)) index.set(key, url);
+		});
+
+		return index;
+	}
+
+	/**
+	 * Closest crawled ancestor by path; a query-string variant's parent is its bare path
+	 */
+	private findPathParent(
+		url: string,
+		index: Map<string, string>,
+	): string | null {
+		const parsed = new URL(url);
+		const segments = UrlUtils.getPathSegments(url);
+
+		for (
+			let length = parsed.search ? segments.length : segments.length - 1;
+			length >= 0;
+			length--
+		) {
+			const ancestor = index.get(
+				this.pathKey(parsed.origin, segments.slice(0, length)),
+			);
+			if (ancestor && ancestor !== url) return ancestor;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Lookup key for a path position within an origin
+	 */
+	private pathKey(origin: string, segments: string[]): string {
+		return `${origin}/${segments.join("/")}`;
+	}
+}
@@ -5,7 +5,8 @@ import { PageMetadata, Link, LinkPosition } from "../crawler/types";
  *
  * Key strategies:
  * 1. Global Navigation Detection: Links appearing on most pages (>85% threshold)
- * 2. Structural Noise: Links in footers
+ * 2. Structural Noise: Links in footers; breadcrumb and pagination links are
+ *    dropped where they appear, since their targets may be flow steps elsewhere
  * 3. Low-Value Links: Social media, logout, external services
  * 4. Frequency Analysis: Links with identical text appearing too frequently
  * 5. Hub Page Detection: Pages that are linked from everywhere
@@ -108,6 +109,8 @@ export class NoiseReducer {
 			LinkPosition.NAVIGATION,
 			LinkPosition.FOOTER,
 			LinkPosition.SIDEBAR,
+			LinkPosition.BREADCRUMB,
+			LinkPosition.PAGINATION,
 		];
 
 		const structuralCount = positions.filter((pos) =>
@@ -170,6 +173,17 @@ export class NoiseReducer {
 		return structuralLinks;
 	}
 
+	/**
+	 * Breadcrumbs lead back up the hierarchy and pagination pages through the
+	 * same list; neither moves the user forward in a flow
+	 */
+	private isNonFlowLink(link: Link): boolean {
+		return (
+			link.position === LinkPosition.BREADCRUMB ||
+			link.position === LinkPosition.PAGINATION
+		);
+	}
+
 	/**
 	 * Identify low-value links that don't contribute to user flows
 	 */
@@ -277,7 +291,7 @@ export class NoiseReducer {
 		const cleanedPages = new Map<string, PageMetadata>();
 		pages.forEach((page, url) => {
 			const cleanedLinks = page.outgoingLinks.filter(
-				(link) => !allNoiseLinks.has(link.href),
+				(link) => !allNoiseLinks.has(link.href) && !this.isNonFlowLink(link),
 			);
 
 			cleanedPages.set(url, {
@@ -322,7 +336,8 @@ export class NoiseReducer {
 			const conservativeCleanedPages = new Map<string, PageMetadata>();
 			pages.forEach((page, url) => {
 				const cleanedLinks = page.outgoingLinks.filter(
-					(link) => !conservativeNoise.has(link.href),
+					(link) =>
+						!conservativeNoise.has(link.href) && !this.isNonFlowLink(link),
 				);
 				conservativeCleanedPages.set(url, {
 					...page,
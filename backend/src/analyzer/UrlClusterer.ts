@@ -0,0 +1,302 @@
+import { PageMetadata } from "../crawler/types";
+import { UrlUtils } from "../utils/UrlUtils";
+import { ClusteringOptions, PageCluster } from "./types";
+
+/**
+ * Result of clustering: collapsed pages plus the clusters they came from
+ */
+export interface ClusteringResult {
+	pages: Map<string, PageMetadata>;
+	clusters: Map<string, PageCluster>;
+}
+
+/**
+ * Collapses pages that share a URL template (e.g. /product/123, /product/456)
+ * into a single "page type" so flows show screens rather than individual items
+ *
+ * Templates are learned from the crawl itself:
+ * 1. Identifier segments (numbers, UUIDs, hashes) always become placeholders
+ * 2. A trailing slug segment becomes a placeholder only when enough sibling
+ *    URLs share the same prefix
+ * 3. Optionally, members whose DOM structure differs too much are split out
+ */
+export class UrlClusterer {
+	private readonly minClusterSize: number;
+	private readonly maxExamples: number;
+	private readonly useDomSimilarity: boolean;
+	private readonly domSimilarityThreshold: number;
+
+	constructor(options: ClusteringOptions = {}) {
+		this.minClusterSize = options.minClusterSize ?? 3;
+		this.maxExamples = options.maxExamples ?? 5;
+		this.useDomSimilarity = options.useDomSimilarity ?? false;
+		this.domSimilarityThreshold = options.domSimilarityThreshold ?? 0.6;
+	}
+
+	/**
+	 * Check whether a path segment reads like a human-readable slug
+	 */
+	private isSlugLike(segment: string): boolean {
+		return (
+			segment.length >= 3 &&
+			(/[-_]/.test(segment) || (/\d/.test(segment) && /[a-z]/i.test(segment)))
+		);
+	}
+
+	/**
+	 * Check whether a template contains at least one placeholder
+	 */
+	private hasPlaceholder(template: string): boolean {
+		return /[/=]:(id|uuid|hash|slug)\b/.test(template);
+	}
+
+	/**
+	 * Learn a template for every page URL
+	 */
+	private learnTemplates(urls: string[]): Map<string, string> {
+		const strongTemplates = new Map<string, string>();
+		const slugCandidates = new Map<string, string>();
+		const slugSiblings = new Map<string, Set<string>>();
+
+		urls.forEach((url) => {
+			const template = UrlUtils.getUrlTemplate(url);
+			strongTemplates.set(url, template);
+
+			try {
+				const templateUrl = new URL(template);
+				const segments = templateUrl.pathname.split("/").filter(Boolean);
+				const lastSegment = segments[segments.length - 1];
+
+				// Top-level pages (/about-us, /contact-us) are never slugs
+				if (
+					segments.length < 2 ||
+					lastSegment.startsWith(":") ||
+					!this.isSlugLike(lastSegment)
+				) {
+					return;
+				}
+
+				segments[segments.length - 1] = ":slug";
+				templateUrl.pathname = "/" + segments.join("/");
+				const slugTemplate = decodeURI(templateUrl.href);
+
+				slugCandidates.set(url, slugTemplate);
+				if (!slugSiblings.has(slugTemplate)) {
+					slugSiblings.set(slugTemplate, new Set());
+				}
+				slugSiblings.get(slugTemplate)!.add(url);
+			} catch {
+				// Keep the strong template for unparsable URLs
+			}
+		});
+
+		const templates = new Map<string, string>();
+		urls.forEach((url) => {
+			const slugTemplate = slugCandidates.get(url);
+			const useSlug =
+				slugTemplate !== undefined &&
+				slugSiblings.get(slugTemplate)!.size >= this.minClusterSize;
+			templates.set(url, useSlug ? slugTemplate! : strongTemplates.get(url)!);
+		});
+
+		return templates;
+	}
+
+	/**
+	 * Jaccard similarity between two structure fingerprints
+	 */
+	private structureSimilarity(a: string[], b: string[]): number {
+		if (a.length === 0 && b.length === 0) return 1;
+
+		const setA = new Set(a);
+		const intersection = b.filter((entry) => setA.has(entry)).length;
+		const union = new Set([...a, ...b]).size;
+		return union === 0 ? 0 : intersection / union;
+	}
+
+	/**
+	 * Drop members whose DOM structure does not match the cluster's reference page
+	 */
+	private filterByStructure(
+		members: string[],
+		pages: Map<string, PageMetadata>,
+	): string[] {
+		const reference = pages.get(members[0])?.structureFingerprint;
+		if (!reference) return members;
+
+		return members.filter((url) => {
+			const fingerprint = pages.get(url)?.structureFingerprint;
+			if (!fingerprint) return true;
+			return (
+				this.structureSimilarity(reference, fingerprint) >=
+				this.domSimilarityThreshold
+			);
+		});
+	}
+
+	/**
+	 * Build a human-readable label for a template, e.g. "Product (42)"
+	 */
+	private buildClusterLabel(template: string, memberCount: number): string {
+		const literalSegments = UrlUtils.getPathSegments(template).filter(
+			(segment) => !segment.startsWith(":"),
+		);
+		const base = literalSegments[literalSegments.length - 1] ?? "Page";
+		const readable = base
+			.split(/[-_]/)
+			.map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+			.join(" ");
+
+		return `${readable} (${memberCount})`;
+	}
+
+	/**
+	 * Group pages into template clusters
+	 */
+	findClusters(pages: Map<string, PageMetadata>): Map<string, PageCluster> {
+		const templates = this.learnTemplates(Array.from(pages.keys()));
+
+		const membersByTemplate = new Map<string, string[]>();
+		templates.forEach((template, url) => {
+			if (!this.hasPlaceholder(template)) return;
+			if (!membersByTemplate.has(template)) {
+				membersByTemplate.set(template, []);
+			}
+			membersByTemplate.get(template)!.push(url);
+		});
+
+		const clusters = new Map<string, PageCluster>();
+
+		membersByTemplate.forEach((urls, template) => {
+			const sortedUrls = [...urls].sort(
+				(a, b) => pages.get(a)!.depth - pages.get(b)!.depth,
+			);
+			const members = this.useDomSimilarity
+				? this.filterByStructure(sortedUrls, pages)
+				: sortedUrls;
+
+			if (members.length < this.minClusterSize) return;
+
+			// Templates are valid URLs (placeholders are plain path segments)
+			const clusterId = template;
+			clusters.set(clusterId, {
+				id: clusterId,
+				template,
+				label: this.buildClusterLabel(template, members.length),
+				members,
+				exampleUrls: members.slice(0, this.maxExamples),
+			});
+		});
+
+		return clusters;
+	}
+
+	/**
+	 * Collapse the members of each cluster into one page and point links and
+	 * forms at the cluster instead of its members
+	 */
+	collapse(
+		pages: Map<string, PageMetadata>,
+		clusters: Map<string, PageCluster>,
+	): Map<string, PageMetadata> {
+		if (clusters.size === 0) return pages;
+
+		const memberToCluster = new Map<string, string>();
+		clusters.forEach((cluster) =>
+			cluster.members.forEach((url) => memberToCluster.set(url, cluster.id)),
+		);
+
+		const collapsedPages = new Map<string, PageMetadata>();
+		const rewriteLinks = (page: PageMetadata) =>
+			page.outgoingLinks.map((link) => ({
+				...link,
+				href: memberToCluster.get(link.href) ?? link.href,
+			}));
+		const rewriteForms = (page: PageMetadata) =>
+			page.forms?.map((form) => ({
+				...form,
+				action: memberToCluster.get(form.action) ?? form.action,
+			}));
+
+		pages.forEach((page, url) => {
+			const clusterId = memberToCluster.get(url);
+
+			if (!clusterId) {
+				collapsedPages.set(url, {
+					...page,
+					outgoingLinks: rewriteLinks(page),
+					forms: rewriteForms(page),
+				});
+				return;
+			}
+
+			const existing = collapsedPages.get(clusterId);
+			if (!existing) {
+				collapsedPages.set(clusterId, {
+					...page,
+					url: clusterId,
+					title: clusters.get(clusterId)!.label,
+					outgoingLinks: rewriteLinks(page),
+					forms: rewriteForms(page),
+					apiCalls: page.apiCalls && [...page.apiCalls],
+					aliases: [],
+				});
+				return;
+			}
+
+			// Aggregate members: shallowest depth, every outgoing link, each
+			// form action and API call once
+			existing.depth = Math.min(existing.depth, page.depth);
+			existing.outgoingLinks.push(...rewriteLinks(page));
+			rewriteForms(page)?.forEach((form) => {
+				existing.forms ??= [];
+				if (!existing.forms.some((f) => f.action === form.action)) {
+					existing.forms.push(form);
+				}
+			});
+			page.apiCalls?.forEach((call) => {
+				existing.apiCalls ??= [];
+				if (
+					!existing.apiCalls.some(
+						(c) => c.method === call.method && c.url === call.url,
+					)
+				) {
+					existing.apiCalls.push(call);
+				}
+			});
+			existing.inSitemap = existing.inSitemap || page.inSitemap;
+			existing.sitemapOnly = existing.sitemapOnly && page.sitemapOnly;
+		});
+
+		return collapsedPages;
+	}
+
+	/**
+	 * Group pages into template clusters and collapse each cluster into one page
+	 */
+	cluster(pages: Map<string, PageMetadata>): ClusteringResult {
+		const clusters = this.findClusters(pages);
+		if (clusters.size === 0) {
+			return { pages, clusters };
+		}
+
+		const collapsedPages = this.collapse(pages, clusters);
+		const collapsedCount = Array.from(clusters.values()).reduce(
+			(count, cluster) => count + cluster.members.length,
+			0,
+		);
+
+		console.log(`\n🧩 URL Template Clustering:`);
+		console.log(
+			`   Clusters: ${clusters.size} (${collapsedCount} pages collapsed)`,
+		);
+		Array.from(clusters.values())
+			.sort((a, b) => b.members.length - a.members.length)
+			.slice(0, 5)
+			.forEach((cluster) => {
+				console.log(`   - ${cluster.template} (${cluster.members.length})`);
+			});
+
+		return { pages: collapsedPages, clusters };
+	}
+}
@@ -1,3 +1,6 @@
+import { UrlCanonicalizationRules } from "../utils/UrlUtils";
+import { ChangeReport, PageScreenshots } from "../crawler/types";
+
 export interface FlowNode {
 	id: string;
 	label: string;
@@ -7,6 +10,15 @@ export interface FlowNode {
 		depth: number;
 		pageTitle: string;
 		pathSegments: string[];
+		aliases: string[];
+		cluster?: {
+			template: string;
+			memberCount: number;
+			exampleUrls: string[];
+		};
+		personas?: string[];
+		devices?: string[];
+		screenshots?: PageScreenshots;
 	};
 }
 
@@ -23,6 +35,14 @@ export interface FlowEdge {
 	target: string;
 	weight: number;
 	label?: string;
+	kind: EdgeKind;
+	personas?: string[];
+	devices?: string[];
+}
+
+export enum EdgeKind {
+	LINK = "link",
+	FORM = "form",
 }
 
 export interface FlowPath {
@@ -30,9 +50,34 @@ export interface FlowPath {
 	type: string;
 }
 
+export interface OrphanPage {
+	url: string;
+	title: string;
+}
+
+export interface BrokenLinkSource {
+	url: string;
+	title: string;
+	anchorText: string;
+}
+
+export interface BrokenLink {
+	url: string;
+	status?: number;
+	state: string;
+	error?: string;
+	sources: BrokenLinkSource[];
+}
+
 export interface UserFlow {
 	nodes: FlowNode[];
 	edges: FlowEdge[];
+	orphanPages: OrphanPage[];
+	brokenLinks: BrokenLink[];
+	personas?: VariantSummary[];
+	devices?: DeviceSummary[];
+	apiDependencies?: ApiDependencies;
+	hierarchy?: SiteHierarchy;
 	metadata: {
 		startUrl: string;
 		totalPages: number;
@@ -40,3 +85,102 @@ export interface UserFlow {
 		crawlTimestamp: number;
 	};
 }
+
+/**
+ * What one crawl variant (a persona, a device...) reached
+ */
+export interface VariantSummary {
+	name: string;
+	pageCount: number;
+	exclusivePages: { url: string; title: string }[];
+	changes?: ChangeReport; // incremental recrawls only
+}
+
+/**
+ * What one device profile reached, including links only its layout exposes
+ */
+export interface DeviceSummary extends VariantSummary {
+	deviceClass: string;
+	viewport: { width: number; height: number };
+	exclusiveEdges: { source: string; target: string; kind: EdgeKind }[];
+}
+
+/**
+ * Options that tune how crawled pages are turned into flows
+ */
+export interface FlowAnalysisOptions {
+	canonicalization?: UrlCanonicalizationRules;
+	clustering?: ClusteringOptions;
+}
+
+/**
+ * Options for collapsing template-sharing pages into page types
+ */
+export interface ClusteringOptions {
+	enabled?: boolean;
+	minClusterSize?: number;
+	maxExamples?: number;
+	useDomSimilarity?: boolean;
+	domSimilarityThreshold?: number;
+}
+
+/**
+ * A group of pages sharing a URL template, represented by one node
+ */
+export interface PageCluster {
+	id: string;
+	template: string;
+	label: string;
+	members: string[];
+	exampleUrls: string[];
+}
+
+/**
+ * One API endpoint (method + path template) and the pages that call it
+ */
+export interface ApiEndpoint {
+	id: string;
+	method: string;
+	template: string;
+	callCount: number;
+	statuses: number[];
+	failedCount: number;
+	averageDurationMs?: number;
+	pages: string[];
+}
+
+/**
+ * Page -> API view: every endpoint, and the endpoints each page calls
+ */
+export interface ApiDependencies {
+	endpoints: ApiEndpoint[];
+	pages: { url: string; title: string; endpoints: string[] }[];
+}
+
+/**
+ * One page in the inferred site hierarchy
+ */
+export interface HierarchyNode {
+	url: string;
+	title: string;
+	source: "root" | "breadcrumb" | "path";
+	children: HierarchyNode[];
+}
+
+/**
+ * A page whose breadcrumbs and URL path disagreed about its parent
+ */
+export interface HierarchyConflict {
+	url: string;
+	parent: string;
+	resolvedBy: "breadcrumb" | "path";
+	alternatives: string[];
+}
+
+/**
+ * Parent/child tree of the site, rooted at the start page
+ */
+export interface SiteHierarchy {
+	root: HierarchyNode;
+	conflicts: HierarchyConflict[];
+}
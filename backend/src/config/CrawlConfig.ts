@@ -1,3 +1,18 @@
+import { UrlCanonicalizationRules, UrlUtils } from "../utils/UrlUtils";
+import { ClusteringOptions } from "../analyzer/types";
+import { InteractiveDiscoveryOptions } from "../crawler/InteractiveDiscovery";
+import { ScreenshotOptions } from "../crawler/ScreenshotCapturer";
+import { ApiRecordingOptions } from "../crawler/ApiRecorder";
+import { PageSourceOptions } from "../crawler/sources/PageSource";
+import { TrapDetectionOptions } from "../crawler/TrapDetector";
+import { LiveDomLinkOptions } from "../crawler/LiveDomLinks";
+import {
+	DeviceProfile,
+	DeviceProfiles,
+	DeviceProfileSpec,
+} from "../crawler/DeviceProfiles";
+import { LoginStep } from "../crawler/types";
+
 /**
  * Configuration for crawl behavior and constraints
  */
@@ -12,6 +27,20 @@ export interface CrawlConfig {
 		usernameSelector?: string;
 		passwordSelector?: string;
 		submitSelector?: string;
+
+		// Multi-step login script; replaces the selector-based default steps
+		steps?: LoginStep[];
+		// Base32 shared secret for {{totp}} codes
+		totpSecret?: string;
+		totpSelector?: string;
+
+		// Success detection: a selector that appears or a URL regex after login
+		successSelector?: string;
+		successUrlPattern?: string;
+
+		// Playwright storage state file, reused across pages and runs
+		storageStatePath?: string;
+		maxLoginAttempts?: number;
 	};
 
 	// Advanced constraints
@@ -50,12 +79,112 @@ export interface CrawlConfig {
 		retryStatusCodes?: number[];
 	};
 
+	// URL canonicalization (tracking params, case, index files, www/https folding)
+	canonicalization?: UrlCanonicalizationRules;
+
+	// Collapse /product/123, /product/456... into one page-type node (off by default)
+	clustering?: ClusteringOptions;
+
+	// Seed the crawl from sitemap.xml (robots.txt Sitemap: lines, indexes, gzip)
+	sitemap?: {
+		enabled?: boolean;
+		sitemapUrls?: string[];
+		maxUrls?: number;
+	};
+
+	// How pages are fetched: "browser" renders every page in Playwright, "static"
+	// fetches HTML over plain HTTP, "auto" uses HTTP and falls back to the browser
+	// for pages that look client-rendered. Login scripts need the browser.
+	renderMode?: "browser" | "static" | "auto";
+
+	// Order in which discovered URLs are visited: "breadth-first" follows the
+	// crawler queue, "best-first" visits the URLs with the highest predicted
+	// importance (URL, anchor text, link position) first
+	crawlStrategy?: "breadth-first" | "best-first";
+
+	// Cap URL families that would otherwise eat the page budget: calendars,
+	// faceted filters, repeating path segments and deep pagination (off by default)
+	trapDetection?: TrapDetectionOptions & {
+		enabled?: boolean;
+	};
+
+	// Read pages from a saved HTML directory, HAR file or WARC archive instead
+	// of the network; startUrl still names the page the walk starts from
+	source?: PageSourceOptions;
+
+	// Links the serialized HTML misses: open shadow roots, same-origin iframes
+	// and window.open / new-tab navigation (browser rendering only, off by default)
+	liveDomLinks?: LiveDomLinkOptions & {
+		enabled?: boolean;
+	};
+
+	// Click buttons and onclick/router-driven elements to find non-anchor navigation
+	interactiveDiscovery?: InteractiveDiscoveryOptions & {
+		enabled?: boolean;
+	};
+
+	// Record the XHR / fetch calls each page makes while loading (off by default)
+	apiRecording?: ApiRecordingOptions & {
+		enabled?: boolean;
+	};
+
+	// Save crawl state periodically and on interrupt; resume continues from it
+	checkpoint?: {
+		enabled?: boolean;
+		directory?: string;
+		intervalPages?: number;
+		resume?: boolean;
+	};
+
+	// Revalidate pages from the previous crawl snapshot and report changes
+	incremental?: {
+		enabled?: boolean;
+		snapshotPath?: string;
+	};
+
+	// Screenshot every page ("all") or only the pages that end up in the flow ("key")
+	screenshots?: ScreenshotOptions & {
+		enabled?: boolean;
+	};
+
+	// Cookies set in every browser context before crawling
+	cookies?: CrawlCookie[];
+
+	// Crawl once per persona and compare what each one can reach
+	personas?: PersonaConfig[];
+
+	// Emulate a device in the browser: user agent, viewport, touch and pixel
+	// ratio. "desktop", "mobile", "tablet", a Playwright device name or a custom profile
+	device?: DeviceProfileSpec;
+
+	// Crawl once per device profile and compare what each one can reach
+	devices?: DeviceProfileSpec[];
+
 	// Legacy fields for backward compatibility
 	timeout?: number;
 	userAgent?: string;
 	respectRobotsTxt?: boolean;
 }
 
+/**
+ * Cookie preset for a crawl; domain defaults to the start URL's host
+ */
+export interface CrawlCookie {
+	name: string;
+	value: string;
+	domain?: string;
+	path?: string;
+}
+
+/**
+ * A named visitor type: anonymous, or signed in via credentials or cookies
+ */
+export interface PersonaConfig {
+	name: string;
+	credentials?: CrawlConfig["credentials"];
+	cookies?: CrawlCookie[];
+}
+
 export class CrawlConfigValidator {
 	private static readonly DEFAULT_CONSTRAINTS = {
 		maxCrawlDurationMs: 300000, // 5 minutes
@@ -83,6 +212,24 @@ export class CrawlConfigValidator {
 		retryStatusCodes: [429, 500, 502, 503, 504],
 	};
 
+	private static readonly DEFAULT_CANONICALIZATION: UrlCanonicalizationRules = {
+		dropParams: [
+			"utm_*",
+			"gclid",
+			"fbclid",
+			"msclkid",
+			"mc_cid",
+			"mc_eid",
+			"jsessionid",
+			"phpsessid",
+		],
+		lowercasePath: false,
+		stripIndexFiles: false,
+		foldWww: false,
+		foldHttps: false,
+		hashRouting: "auto",
+	};
+
 	static validate(config: Partial<CrawlConfig>): CrawlConfig {
 		if (!config.startUrl) {
 			throw new Error("startUrl is required");
@@ -102,6 +249,89 @@ export class CrawlConfigValidator {
 			timeout: config.timeout ?? 30000,
 			userAgent: config.userAgent ?? "IntelligentUserFlowMapper/1.0",
 			respectRobotsTxt: config.respectRobotsTxt ?? true,
+			canonicalization: {
+				...this.DEFAULT_CANONICALIZATION,
+				...config.canonicalization,
+			},
+			clustering: {
+				enabled: false,
+				minClusterSize: 3,
+				maxExamples: 5,
+				useDomSimilarity: false,
+				domSimilarityThreshold: 0.6,
+				...config.clustering,
+			},
+			sitemap: config.sitemap
+				? {
+						enabled: config.sitemap.enabled ?? true,
+						sitemapUrls: config.sitemap.sitemapUrls ?? [],
+						maxUrls: config.sitemap.maxUrls ?? 1000,
+					}
+				: undefined,
+			renderMode: config.renderMode ?? "browser",
+			crawlStrategy: config.crawlStrategy ?? "breadth-first",
+			source: config.source,
+			interactiveDiscovery: {
+				enabled: false,
+				maxClicksPerPage: 15,
+				candidateSelectors: [],
+				settleTimeMs: 1000,
+				maxDurationMs: 15000,
+				...config.interactiveDiscovery,
+			},
+			apiRecording: {
+				enabled: false,
+				maxCallsPerPage: 100,
+				includeThirdParty: false,
+				...config.apiRecording,
+			},
+			liveDomLinks: {
+				enabled: false,
+				includeShadowDom: true,
+				includeIframes: true,
+				capturePopups: true,
+				...config.liveDomLinks,
+			},
+			trapDetection: {
+				enabled: false,
+				maxUrlsPerTemplate: 50,
+				maxCalendarUrls: 12,
+				maxRepeatedSegments: 2,
+				maxQueryVariantsPerPath: 30,
+				maxPaginationDepth: 20,
+				...config.trapDetection,
+			},
+			checkpoint: config.checkpoint
+				? {
+						enabled: config.checkpoint.enabled ?? true,
+						directory:
+							config.checkpoint.directory ??
+							`.checkpoints/${new URL(config.startUrl).hostname}`,
+						intervalPages: config.checkpoint.intervalPages ?? 25,
+						resume: config.checkpoint.resume ?? false,
+					}
+				: undefined,
+			incremental: config.incremental
+				? {
+						enabled: config.incremental.enabled ?? true,
+						snapshotPath:
+							config.incremental.snapshotPath ?? "crawl-snapshot.json",
+					}
+				: undefined,
+			screenshots: config.screenshots
+				? {
+						enabled: config.screenshots.enabled ?? true,
+						fullPage: config.screenshots.fullPage ?? true,
+						viewport: config.screenshots.viewport ?? true,
+						scope: config.screenshots.scope ?? "all",
+						directory: config.screenshots.directory ?? "screenshots",
+						thumbnailWidth: config.screenshots.thumbnailWidth ?? 320,
+					}
+				: undefined,
+			cookies: config.cookies,
+			personas: config.personas,
+			device: config.device && DeviceProfiles.resolve(config.device),
+			devices: config.devices?.map((device) => DeviceProfiles.resolve(device)),
 			constraints: {
 				...this.DEFAULT_CONSTRAINTS,
 				...config.constraints,
@@ -110,10 +340,117 @@ export class CrawlConfigValidator {
 
 		// Validate constraints
 		this.validateConstraints(validated.constraints!);
+		this.validatePersonas(validated.personas ?? []);
+		this.validateDevices(validated);
 
 		return validated;
 	}
 
+	/**
+	 * Derive the crawl config for one persona; each persona keeps its own
+	 * session file, checkpoint and crawl snapshot so nothing leaks between personas
+	 */
+	static forPersona(config: CrawlConfig, persona: PersonaConfig): CrawlConfig {
+		const hostname = new URL(config.startUrl).hostname;
+		const slug = persona.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+		return {
+			...config,
+			personas: undefined,
+			cookies: persona.cookies,
+			checkpoint: config.checkpoint
+				? {
+						...config.checkpoint,
+						directory: `${config.checkpoint.directory}/${slug}`,
+					}
+				: undefined,
+			credentials: persona.credentials
+				? {
+						...persona.credentials,
+						storageStatePath:
+							persona.credentials.storageStatePath ??
+							`.auth/${hostname}-${slug}.json`,
+					}
+				: undefined,
+			incremental: config.incremental
+				? {
+						...config.incremental,
+						snapshotPath: (
+							config.incremental.snapshotPath ?? "crawl-snapshot.json"
+						).replace(/(\.json)?$/, `-${slug}.json`),
+					}
+				: undefined,
+		};
+	}
+
+	/**
+	 * Derive the crawl config for one device profile, keeping checkpoints and
+	 * crawl snapshots apart like personas do
+	 */
+	static forDevice(config: CrawlConfig, device: DeviceProfile): CrawlConfig {
+		const slug = device.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+		return {
+			...config,
+			devices: undefined,
+			device,
+			checkpoint: config.checkpoint
+				? {
+						...config.checkpoint,
+						directory: `${config.checkpoint.directory}/${slug}`,
+					}
+				: undefined,
+			incremental: config.incremental
+				? {
+						...config.incremental,
+						snapshotPath: (
+							config.incremental.snapshotPath ?? "crawl-snapshot.json"
+						).replace(/(\.json)?$/, `-${slug}.json`),
+					}
+				: undefined,
+		};
+	}
+
+	private static validateDevices(config: CrawlConfig): void {
+		const devices = (config.devices ?? []).map((device) =>
+			DeviceProfiles.resolve(device),
+		);
+		if (devices.length === 0) return;
+
+		if (devices.length < 2) {
+			throw new Error("Comparing devices needs at least two profiles");
+		}
+		if (config.personas?.length) {
+			throw new Error("personas and devices cannot be combined in one run");
+		}
+		if (config.source) {
+			throw new Error(
+				"Device comparison needs a live site, not a saved source",
+			);
+		}
+
+		const names = new Set<string>();
+		devices.forEach((device) => {
+			if (names.has(device.name)) {
+				throw new Error(`Duplicate device profile name: ${device.name}`);
+			}
+			names.add(device.name);
+		});
+	}
+
+	private static validatePersonas(personas: PersonaConfig[]): void {
+		const names = new Set<string>();
+		personas.forEach((persona) => {
+			if (!persona.name) {
+				throw new Error("Every persona needs a name");
+			}
+			if (names.has(persona.name)) {
+				throw new Error(`Duplicate persona name: ${persona.name}`);
+			}
+			names.add(persona.name);
+		});
+	}
+
 	private static validateConstraints(
 		constraints: NonNullable<CrawlConfig["constraints"]>,
 	): void {
@@ -131,19 +468,40 @@ export class CrawlConfigValidator {
 		if (constraints.maxLinksPerPage && constraints.maxLinksPerPage < 1) {
 			throw new Error("maxLinksPerPage must be at least 1");
 		}
+
+		if (
+			constraints.maxRequestsPerMinute !== undefined &&
+			constraints.maxRequestsPerMinute <= 0
+		) {
+			throw new Error("maxRequestsPerMinute must be greater than 0");
+		}
+
+		if (constraints.maxRetries !== undefined && constraints.maxRetries < 0) {
+			throw new Error("maxRetries cannot be negative");
+		}
 	}
 }
 
 export interface CrawlConstraints {
 	shouldCrawlUrl(url: string): boolean;
 	shouldFollowLink(link: string, fromUrl: string): boolean;
+	isAllowedContentType(contentType: string | undefined): boolean;
 	getRequestDelay(): number;
 	hasExceededTimeLimit(startTime: number): boolean;
 }
 
 export class CrawlConstraintsImpl implements CrawlConstraints {
+	private crawlDelayMs: number = 0;
+
 	constructor(private config: CrawlConfig) {}
 
+	/**
+	 * Apply a robots.txt Crawl-delay (in seconds) on top of the configured delay
+	 */
+	setCrawlDelay(seconds: number): void {
+		this.crawlDelayMs = Math.max(0, seconds * 1000);
+	}
+
 	shouldCrawlUrl(url: string): boolean {
 		const constraints = this.config.constraints;
 		if (!constraints) return true;
@@ -209,8 +567,11 @@ export class CrawlConstraintsImpl implements CrawlConstraints {
 		if (!constraints) return true;
 
 		try {
-			const linkUrl = new URL(link);
-			const fromUrlObj = new URL(fromUrl);
+			// Compare hosts after www/https folding: with foldWww on, a link to
+			// www.example.com from a page keyed as example.com is still internal
+			const rules = this.config.canonicalization;
+			const linkUrl = new URL(UrlUtils.normalize(link, rules));
+			const fromUrlObj = new URL(UrlUtils.normalize(fromUrl, rules));
 
 			// Check if external link
 			if (!constraints.followExternalLinks) {
@@ -225,11 +586,27 @@ export class CrawlConstraintsImpl implements CrawlConstraints {
 		}
 	}
 
+	isAllowedContentType(contentType: string | undefined): boolean {
+		const allowedTypes = this.config.constraints?.includeOnlyContentTypes;
+		if (!allowedTypes || allowedTypes.length === 0) return true;
+		// Servers that omit the header still send pages; let them through
+		if (!contentType) return true;
+
+		// Compare the media type only, ignoring parameters like charset
+		const mediaType = contentType.split(";")[0].trim().toLowerCase();
+		return allowedTypes.some((type) => {
+			const allowed = type.trim().toLowerCase();
+			return allowed.endsWith("/*")
+				? mediaType.startsWith(allowed.slice(0, -1))
+				: mediaType === allowed;
+		});
+	}
+
 	getRequestDelay(): number {
 		const constraints = this.config.constraints;
-		if (!constraints?.minTimeBetweenRequestsMs) return 0;
+		const configuredDelay = constraints?.minTimeBetweenRequestsMs ?? 0;
 
-		return constraints.minTimeBetweenRequestsMs;
+		return Math.max(configuredDelay, this.crawlDelayMs);
 	}
 
 	hasExceededTimeLimit(startTime: number): boolean {
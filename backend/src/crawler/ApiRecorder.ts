@@ -0,0 +1,122 @@
+import { Page, Request } from "playwright";
+import { ApiCall } from "./types";
+import { UrlUtils } from "../utils/UrlUtils";
+
+/**
+ * Options for recording the XHR / fetch calls a page makes while loading
+ */
+export interface ApiRecordingOptions {
+	maxCallsPerPage?: number;
+	includeThirdParty?: boolean;
+}
+
+/**
+ * Calls recorded for one page, plus listeners still waiting on a response
+ */
+interface PageRecording {
+	calls: ApiCall[];
+	pending: Set<Promise<void>>;
+}
+
+/**
+ * Records XHR and fetch requests per page
+ *
+ * Listeners are attached before navigation and collected once the page has
+ * been processed; anything the page requests later is not part of its load.
+ */
+export class ApiRecorder {
+	private readonly maxCallsPerPage: number;
+	private readonly includeThirdParty: boolean;
+	private readonly siteHost: string;
+	private recordings = new WeakMap<Page, PageRecording>();
+
+	constructor(startUrl: string, options: ApiRecordingOptions = {}) {
+		this.maxCallsPerPage = options.maxCallsPerPage ?? 100;
+		this.includeThirdParty = options.includeThirdParty ?? false;
+		this.siteHost = new URL(startUrl).hostname.replace(/^www\./, "");
+	}
+
+	/**
+	 * Start recording API calls made by the page
+	 */
+	attach(page: Page): void {
+		if (this.recordings.has(page)) return;
+
+		const calls: ApiCall[] = [];
+		const pending = new Set<Promise<void>>();
+		this.recordings.set(page, { calls, pending });
+
+		page.on("requestfinished", (request) => {
+			if (!this.shouldRecord(request, calls)) return;
+			const recorded = request
+				.response()
+				.catch(() => null)
+				.then((response) => {
+					// Other calls may have used up the budget in the meantime
+					if (calls.length >= this.maxCallsPerPage) return;
+					calls.push(this.toApiCall(request, response?.status()));
+				})
+				.finally(() => pending.delete(recorded));
+			pending.add(recorded);
+		});
+		page.on("requestfailed", (request) => {
+			if (!this.shouldRecord(request, calls)) return;
+			calls.push({ ...this.toApiCall(request), failed: true });
+		});
+	}
+
+	/**
+	 * Stop recording and return what the page called, once every finished
+	 * request's response has been read
+	 */
+	async collect(page: Page): Promise<ApiCall[]> {
+		const recording = this.recordings.get(page);
+		if (!recording) return [];
+		this.recordings.delete(page);
+
+		await Promise.allSettled(Array.from(recording.pending));
+		return [...recording.calls];
+	}
+
+	/**
+	 * XHR / fetch to our own site, within the per-page budget
+	 */
+	private shouldRecord(request: Request, calls: ApiCall[]): boolean {
+		const resourceType = request.resourceType();
+		if (resourceType !== "xhr" && resourceType !== "fetch") return false;
+		if (calls.length >= this.maxCallsPerPage) return false;
+		return this.includeThirdParty || this.isFirstParty(request.url());
+	}
+
+	/**
+	 * Same host as the start URL, or one of its subdomains (api., cdn. ...)
+	 */
+	private isFirstParty(url: string): boolean {
+		try {
+			const host = new URL(url).hostname.replace(/^www\./, "");
+			return host === this.siteHost || host.endsWith(`.${this.siteHost}`);
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Describe a request; the template drops the query so calls group by path
+	 */
+	private toApiCall(request: Request, status?: number): ApiCall {
+		const url = new URL(request.url());
+		const timing = request.timing();
+		url.search = "";
+		url.hash = "";
+
+		return {
+			method: request.method(),
+			url: request.url(),
+			template: UrlUtils.getUrlTemplate(url.href),
+			resourceType: request.resourceType(),
+			status,
+			durationMs:
+				timing.responseEnd >= 0 ? Math.round(timing.responseEnd) : undefined,
+		};
+	}
+}
@@ -0,0 +1,114 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { PageMetadata, SkippedUrl } from "./types";
+import { TrapDetectorState } from "./TrapDetector";
+
+/**
+ * A URL that was enqueued but not processed yet
+ */
+export interface PendingRequest {
+	url: string;
+	depth: number;
+	fromSitemap?: boolean;
+}
+
+/**
+ * Everything needed to continue an interrupted crawl
+ */
+export interface CheckpointState {
+	version: number;
+	startUrl: string;
+	savedAt: string;
+	completed: boolean;
+	visitedUrls: string[];
+	pending: PendingRequest[];
+	pages: PageMetadata[];
+	skippedUrls: SkippedUrl[];
+	aliasUrls: [string, string][];
+	sitemapUrls: string[];
+	// Absent when trap detection was off
+	trapDetector?: TrapDetectorState;
+}
+
+/**
+ * Persists crawl state to a directory so long crawls can be resumed
+ *
+ * Writes go to a temporary file that is renamed into place, so an interrupt
+ * during a save never leaves a half-written checkpoint behind.
+ */
+export class CrawlCheckpoint {
+	static readonly VERSION = 1;
+	private readonly filePath: string;
+	private lastWrite: Promise<void> = Promise.resolve();
+
+	constructor(private readonly directory: string) {
+		this.filePath = path.join(directory, "checkpoint.json");
+	}
+
+	/**
+	 * Write the crawl state atomically; concurrent saves are queued
+	 */
+	save(state: Omit<CheckpointState, "version" | "savedAt">): Promise<void> {
+		const payload: CheckpointState = {
+			version: CrawlCheckpoint.VERSION,
+			savedAt: new Date().toISOString(),
+			...state,
+		};
+
+		this.lastWrite = this.lastWrite
+			.catch(() => undefined)
+			.then(() => this.write(payload));
+		return this.lastWrite;
+	}
+
+	/**
+	 * Write to a temporary file, then rename it over the checkpoint
+	 */
+	private async write(payload: CheckpointState): Promise<void> {
+		const tempPath = `${this.filePath}.tmp`;
+
+		await fs.mkdir(this.directory, { recursive: true });
+		await fs.writeFile(tempPath, JSON.stringify(payload));
+		await fs.rename(tempPath, this.filePath);
+	}
+
+	/**
+	 * Load the last checkpoint, or null when there is none (or it is unusable)
+	 */
+	async load(): Promise<CheckpointState | null> {
+		try {
+			const content = await fs.readFile(this.filePath, "utf-8");
+			const state = JSON.parse(content) as CheckpointState;
+
+			if (state.version !== CrawlCheckpoint.VERSION) {
+				console.warn(
+					`   ⚠️  Ignoring checkpoint with unsupported version ${state.version}`,
+				);
+				return null;
+			}
+
+			return state;
+		} catch (error: any) {
+			if (error.code !== "ENOENT") {
+				console.warn(
+					`   ⚠️  Could not read checkpoint ${this.filePath}: ${error.message}`,
+				);
+			}
+			return null;
+		}
+	}
+
+	/**
+	 * Remove the checkpoint once a crawl has finished
+	 */
+	async clear(): Promise<void> {
+		await fs.rm(this.filePath, { force: true });
+	}
+
+	/**
+	 * Location of the checkpoint file, for log messages
+	 */
+	getPath(): string {
+		return this.filePath;
+	}
+}
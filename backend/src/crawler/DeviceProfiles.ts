@@ -0,0 +1,105 @@
+import { devices } from "playwright";
+
+export type DeviceClass = "desktop" | "mobile" | "tablet";
+
+/**
+ * Everything the browser context needs to pass as a given device
+ */
+export interface DeviceProfile {
+	name: string;
+	deviceClass: DeviceClass;
+	userAgent: string;
+	viewport: { width: number; height: number };
+	deviceScaleFactor: number;
+	isMobile: boolean;
+	hasTouch: boolean;
+}
+
+/**
+ * A built-in profile name ("desktop", "mobile", "tablet"), a Playwright
+ * device name ("iPhone 13"), or a custom profile; a custom profile may
+ * start from a named one via `extends`
+ */
+export type DeviceProfileSpec =
+	string | (Partial<DeviceProfile> & { name: string; extends?: string });
+
+/**
+ * Built-in profiles map onto Chromium-based Playwright descriptors, since
+ * the crawler always launches Chromium
+ */
+const BUILT_IN_PROFILES: Record<string, string> = {
+	desktop: "Desktop Chrome",
+	mobile: "Pixel 7",
+	tablet: "Galaxy Tab S4",
+};
+
+/**
+ * Resolves device profile specs and turns them into browser launch options
+ */
+export class DeviceProfiles {
+	/**
+	 * Resolve a spec into a complete profile; unknown names throw
+	 */
+	static resolve(spec: DeviceProfileSpec): DeviceProfile {
+		if (typeof spec === "string") {
+			return this.fromDescriptor(spec);
+		}
+
+		const { extends: baseName, ...overrides } = spec;
+		const profile = {
+			...this.fromDescriptor(baseName ?? "desktop"),
+			...overrides,
+		};
+
+		return {
+			...profile,
+			deviceClass:
+				spec.deviceClass ??
+				this.classify(profile.isMobile, profile.viewport.width),
+		};
+	}
+
+	/**
+	 * Context options for Playwright's persistent browser context
+	 */
+	static toLaunchOptions(profile: DeviceProfile) {
+		return {
+			viewport: profile.viewport,
+			deviceScaleFactor: profile.deviceScaleFactor,
+			isMobile: profile.isMobile,
+			hasTouch: profile.hasTouch,
+		};
+	}
+
+	/**
+	 * Profile from a built-in or Playwright device name
+	 */
+	private static fromDescriptor(name: string): DeviceProfile {
+		const descriptor =
+			devices[BUILT_IN_PROFILES[name.toLowerCase()] ?? name] ?? null;
+		if (!descriptor) {
+			throw new Error(`Unknown device profile: ${name}`);
+		}
+
+		return {
+			name,
+			deviceClass: this.classify(
+				descriptor.isMobile,
+				descriptor.viewport.width,
+			),
+			userAgent: descriptor.userAgent,
+			viewport: { ...descriptor.viewport },
+			deviceScaleFactor: descriptor.deviceScaleFactor,
+			isMobile: descriptor.isMobile,
+			hasTouch: descriptor.hasTouch,
+		};
+	}
+
+	/**
+	 * Mobile devices at least 600 CSS pixels wide count as tablets
+	 */
+	private static classify(isMobile: boolean, width: number): DeviceClass {
+		if (!isMobile) return "desktop";
+		return width >= 600 ? "tablet" : "mobile";
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * Token bucket state for a single host
+ */
+interface TokenBucket {
+	tokens: number;
+	lastRefill: number;
+}
+
+/**
+ * Per-host token-bucket rate limiter
+ *
+ * Each host gets its own bucket that refills at `requestsPerMinute` and
+ * holds at most `burstSize` tokens, so short bursts up to the concurrency
+ * level are allowed while the sustained rate stays under the limit.
+ */
+export class HostRateLimiter {
+	private buckets: Map<string, TokenBucket> = new Map();
+	private readonly tokensPerMs: number;
+
+	constructor(
+		requestsPerMinute: number,
+		private readonly burstSize: number = 1,
+	) {
+		this.tokensPerMs = requestsPerMinute / 60000;
+	}
+
+	/**
+	 * Wait until a request to the URL's host is allowed, then consume a token
+	 */
+	async acquire(url: string): Promise<void> {
+		let host: string;
+		try {
+			host = new URL(url).host;
+		} catch {
+			return;
+		}
+
+		while (true) {
+			const bucket = this.refill(host);
+			if (bucket.tokens >= 1) {
+				bucket.tokens -= 1;
+				return;
+			}
+
+			const waitMs = Math.ceil((1 - bucket.tokens) / this.tokensPerMs);
+			await new Promise((resolve) => setTimeout(resolve, waitMs));
+		}
+	}
+
+	/**
+	 * Top up a host's bucket for the time elapsed since the last refill
+	 */
+	private refill(host: string): TokenBucket {
+		const now = Date.now();
+		let bucket = this.buckets.get(host);
+
+		if (!bucket) {
+			bucket = { tokens: this.burstSize, lastRefill: now };
+			this.buckets.set(host, bucket);
+			return bucket;
+		}
+
+		const elapsed = now - bucket.lastRefill;
+		bucket.tokens = Math.min(
+			this.burstSize,
+			bucket.tokens + elapsed * this.tokensPerMs,
+		);
+		bucket.lastRefill = now;
+
+		return bucket;
+	}
+}
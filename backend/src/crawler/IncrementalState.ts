@@ -0,0 +1,111 @@
+import { promises as fs } from "fs";
+import { ChangeReport, PageMetadata } from "./types";
+
+/**
+ * Previous crawl snapshot used for incremental recrawls
+ *
+ * Supplies ETag / Last-Modified validators for conditional requests, the
+ * previous version of a page when it did not change, and the added /
+ * changed / removed report once the new crawl is done.
+ */
+export class IncrementalState {
+	private aliasIndex: Map<string, string> = new Map(); // alias -> page url
+
+	constructor(private readonly previousPages: Map<string, PageMetadata>) {
+		previousPages.forEach((page, url) => {
+			(page.aliases ?? []).forEach((alias) => this.aliasIndex.set(alias, url));
+		});
+	}
+
+	/**
+	 * Load the snapshot written by the previous run, if any
+	 */
+	static async load(snapshotPath: string): Promise<IncrementalState | null> {
+		try {
+			const content = await fs.readFile(snapshotPath, "utf-8");
+			const pages = JSON.parse(content) as PageMetadata[];
+			return new IncrementalState(
+				new Map(pages.map((page) => [page.url, page])),
+			);
+		} catch (error: any) {
+			if (error.code !== "ENOENT") {
+				console.warn(
+					`   ⚠️  Could not read crawl snapshot ${snapshotPath}: ${error.message}`,
+				);
+			}
+			return null;
+		}
+	}
+
+	/**
+	 * Write this crawl's pages as the snapshot for the next run
+	 */
+	static async save(
+		snapshotPath: string,
+		pages: Map<string, PageMetadata>,
+	): Promise<void> {
+		await fs.writeFile(
+			snapshotPath,
+			JSON.stringify(Array.from(pages.values()), null, 2),
+		);
+	}
+
+	/**
+	 * Previous version of a page, looked up by URL or alias
+	 */
+	getPrevious(url: string): PageMetadata | undefined {
+		return this.previousPages.get(this.aliasIndex.get(url) ?? url);
+	}
+
+	/**
+	 * Conditional request headers for a page that loaded fine last time
+	 */
+	getConditionalHeaders(url: string): Record<string, string> | null {
+		const previous = this.getPrevious(url);
+		if (!previous || previous.error || (previous.status ?? 200) >= 400) {
+			return null;
+		}
+
+		const headers: Record<string, string> = {};
+		if (previous.etag) headers["if-none-match"] = previous.etag;
+		if (previous.lastModified) {
+			headers["if-modified-since"] = previous.lastModified;
+		}
+
+		return Object.keys(headers).length > 0 ? headers : null;
+	}
+
+	/**
+	 * Compare the new crawl with the previous snapshot
+	 */
+	buildChangeReport(currentPages: Map<string, PageMetadata>): ChangeReport {
+		const report: ChangeReport = {
+			added: [],
+			changed: [],
+			removed: [],
+			unchanged: 0,
+		};
+
+		currentPages.forEach((page, url) => {
+			const previous = this.getPrevious(url);
+			if (!previous) {
+				report.added.push(url);
+			} else if (previous.contentHash !== page.contentHash) {
+				report.changed.push(url);
+			} else {
+				report.unchanged++;
+			}
+		});
+
+		this.previousPages.forEach((page, url) => {
+			const stillPresent =
+				currentPages.has(url) ||
+				(page.aliases ?? []).some((alias) => currentPages.has(alias));
+			if (!stillPresent) {
+				report.removed.push(url);
+			}
+		});
+
+		return report;
+	}
+}
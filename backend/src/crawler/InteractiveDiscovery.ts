@@ -0,0 +1,204 @@
+import { BrowserContext, Page, Route } from "playwright";
+import {
+	installLinkPositionProbe,
+	installNavigationProbes,
+	installPopupProbe,
+	LINK_POSITION_SELECTORS,
+	readNavigations,
+	readPopups,
+	resetProbes,
+} from "./browser/PageProbes";
+import { ClickCandidate, markClickCandidates } from "./browser/PageScans";
+import { LinkPosition, LinkTrigger } from "./types";
+
+/**
+ * Options for clicking through non-anchor navigation
+ */
+export interface InteractiveDiscoveryOptions {
+	maxClicksPerPage?: number;
+	candidateSelectors?: string[];
+	settleTimeMs?: number;
+	maxDurationMs?: number;
+}
+
+/**
+ * A navigation observed after clicking an element
+ */
+export interface DiscoveredNavigation {
+	href: string;
+	text: string;
+	position: LinkPosition;
+	trigger: LinkTrigger;
+	opensNewWindow?: boolean;
+}
+
+/**
+ * Opt-in discovery of navigation triggered by buttons, onclick handlers and
+ * client-side routers
+ *
+ * Runs in a separate tab of the crawler's browser context. The tab is
+ * sandboxed: full page navigations are recorded and aborted, and non-GET
+ * requests are blocked so clicking "Delete" or "Buy" has no side effects.
+ */
+export class InteractiveDiscovery {
+	private readonly maxClicksPerPage: number;
+	private readonly candidateSelectors: string[];
+	private readonly settleTimeMs: number;
+	private readonly maxDurationMs: number;
+
+	constructor(options: InteractiveDiscoveryOptions = {}) {
+		this.maxClicksPerPage = options.maxClicksPerPage ?? 15;
+		this.candidateSelectors = options.candidateSelectors ?? [];
+		this.settleTimeMs = options.settleTimeMs ?? 1000;
+		this.maxDurationMs = options.maxDurationMs ?? 15000;
+	}
+
+	/**
+	 * Click candidate elements on the page and collect the URLs they navigate to
+	 */
+	async discover(
+		context: BrowserContext,
+		url: string,
+	): Promise<DiscoveredNavigation[]> {
+		const deadline = Date.now() + this.maxDurationMs;
+		const discovered = new Map<string, DiscoveredNavigation>();
+		const blockedNavigations: string[] = [];
+		const openedWindows: string[] = [];
+		let sandboxActive = false;
+
+		const tab = await context.newPage();
+
+		try {
+			// New windows are recorded like any other navigation
+			await tab.addInitScript(installPopupProbe);
+			await tab.addInitScript(installNavigationProbes);
+			// target=_blank and form-opened tabs: note where they go, then close them
+			tab.on("popup", async (popup) => {
+				await popup
+					.waitForLoadState("domcontentloaded", { timeout: 5000 })
+					.catch(() => undefined);
+				if (popup.url() !== "about:blank") openedWindows.push(popup.url());
+				await popup.close().catch(() => undefined);
+			});
+			await tab.route("**/*", (route: Route) => {
+				const request = route.request();
+
+				if (
+					sandboxActive &&
+					request.isNavigationRequest() &&
+					request.frame() === tab.mainFrame()
+				) {
+					blockedNavigations.push(request.url());
+					return route.abort();
+				}
+
+				if (request.method() !== "GET") {
+					return route.abort();
+				}
+
+				return route.continue();
+			});
+
+			await this.loadPage(tab, url);
+			sandboxActive = true;
+			// Redirects and trailing-slash fixes land elsewhere: compare with that
+			let loadedUrl = tab.url();
+
+			let candidates = await this.markCandidates(tab);
+			const clickCount = Math.min(candidates.length, this.maxClicksPerPage);
+
+			for (let i = 0; i < clickCount && Date.now() < deadline; i++) {
+				const candidate = candidates[i];
+				blockedNavigations.length = 0;
+				openedWindows.length = 0;
+				await tab.evaluate(resetProbes);
+
+				try {
+					await tab.click(`[data-ufm-candidate="${candidate.index}"]`, {
+						timeout: 2000,
+					});
+				} catch {
+					continue; // Hidden, detached or covered element
+				}
+
+				await tab.waitForTimeout(this.settleTimeMs);
+
+				const routed = await tab.evaluate(readNavigations).catch(() => []);
+				const popups = await tab.evaluate(readPopups).catch(() => []);
+				const newWindows = new Set([...popups, ...openedWindows]);
+				const currentUrl = tab.url();
+				const targets = [
+					...blockedNavigations,
+					...routed,
+					...(currentUrl !== loadedUrl ? [currentUrl] : []),
+					...newWindows,
+				];
+
+				targets.forEach((href) => {
+					if (href === url || href === loadedUrl || discovered.has(href)) {
+						return;
+					}
+					discovered.set(href, {
+						href,
+						text: candidate.text,
+						position: candidate.position as LinkPosition,
+						trigger: {
+							tag: candidate.tag,
+							x: candidate.x,
+							y: candidate.y,
+							width: candidate.width,
+							height: candidate.height,
+						},
+						opensNewWindow: newWindows.has(href),
+					});
+				});
+
+				// Client-side route changes leave the app elsewhere: start over
+				if (currentUrl !== loadedUrl || routed.length > 0) {
+					sandboxActive = false;
+					await this.loadPage(tab, url);
+					sandboxActive = true;
+					loadedUrl = tab.url();
+					candidates = await this.markCandidates(tab);
+				}
+			}
+		} catch (error: any) {
+			console.warn(
+				`   ⚠️  Interactive discovery failed on ${url}: ${error.message}`,
+			);
+		} finally {
+			await tab.close().catch(() => undefined);
+		}
+
+		return Array.from(discovered.values());
+	}
+
+	/**
+	 * Navigate the sandbox tab and give client-side apps a moment to render
+	 */
+	private async loadPage(tab: Page, url: string): Promise<void> {
+		await tab.goto(url, { waitUntil: "domcontentloaded", timeout: 15000 });
+		await tab
+			.waitForLoadState("networkidle", { timeout: 5000 })
+			.catch(() => undefined);
+	}
+
+	/**
+	 * Tag clickable non-anchor elements with data-ufm-candidate and describe them
+	 */
+	private async markCandidates(tab: Page): Promise<ClickCandidate[]> {
+		const selectors = [
+			"button",
+			'[role="link"]',
+			'[role="button"]',
+			'[role="tab"]',
+			'[role="menuitem"]',
+			"[onclick]",
+			"[data-ufm-click]",
+			...this.candidateSelectors,
+		].join(", ");
+
+		await tab.evaluate(installLinkPositionProbe, LINK_POSITION_SELECTORS);
+		return tab.evaluate(markClickCandidates, selectors);
+	}
+}
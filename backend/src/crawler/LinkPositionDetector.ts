@@ -0,0 +1,82 @@
+import * as cheerio from "cheerio";
+import { LINK_POSITION_SELECTORS } from "./browser/PageProbes";
+import { LinkPosition } from "./types";
+
+/**
+ * Classifies links, buttons and forms in fetched HTML by where they sit on
+ * the page; installLinkPositionProbe is its in-page twin
+ */
+export class LinkPositionDetector {
+	/**
+	 * Detect the position/context of a link within the page structure
+	 *
+	 * Specific widgets (breadcrumbs, pagination, tabs, calls to action) win
+	 * over the landmark they sit in; ARIA roles count the same as the tags.
+	 */
+	static detect(element: cheerio.Element, $: cheerio.Root): LinkPosition {
+		const $element = $(element);
+		const within = (selector: string) => $element.closest(selector).length > 0;
+
+		if (within(LINK_POSITION_SELECTORS.breadcrumb)) {
+			return LinkPosition.BREADCRUMB;
+		}
+
+		if (
+			/\b(next|prev)\b/i.test($element.attr("rel") ?? "") ||
+			within(LINK_POSITION_SELECTORS.pagination)
+		) {
+			return LinkPosition.PAGINATION;
+		}
+
+		if (within(LINK_POSITION_SELECTORS.tabs)) {
+			return LinkPosition.TABS;
+		}
+
+		// Only links and buttons read as calls to action, not the forms around them
+		const tag = (element as cheerio.TagElement).tagName?.toLowerCase();
+		if (
+			(tag === "a" || tag === "button") &&
+			($element.attr("role") === "button" ||
+				/\b(btn|button|cta)\b/i.test($element.attr("class") ?? ""))
+		) {
+			return LinkPosition.CTA;
+		}
+
+		if (within(LINK_POSITION_SELECTORS.header)) {
+			return LinkPosition.HEADER;
+		}
+
+		if (within(LINK_POSITION_SELECTORS.navigation)) {
+			return LinkPosition.NAVIGATION;
+		}
+
+		if (within(LINK_POSITION_SELECTORS.footer)) {
+			return LinkPosition.FOOTER;
+		}
+
+		if (within(LINK_POSITION_SELECTORS.sidebar)) {
+			return LinkPosition.SIDEBAR;
+		}
+
+		const classList = $element.attr("class") || "";
+		const idList = $element.attr("id") || "";
+		const navKeywords = ["nav", "menu", "header"];
+
+		if (
+			navKeywords.some(
+				(keyword) =>
+					classList.toLowerCase().includes(keyword) ||
+					idList.toLowerCase().includes(keyword),
+			)
+		) {
+			return LinkPosition.NAVIGATION;
+		}
+
+		// Result lists, product grids and feeds inside the page body
+		if (within(LINK_POSITION_SELECTORS.list)) {
+			return LinkPosition.IN_CONTENT_LIST;
+		}
+
+		return LinkPosition.CONTENT;
+	}
+}
@@ -0,0 +1,150 @@
+import { Frame, Page } from "playwright";
+import {
+	installLinkPositionProbe,
+	installPopupProbe,
+	LINK_POSITION_SELECTORS,
+	readPopups,
+} from "./browser/PageProbes";
+import { collectAnchors, RawAnchor } from "./browser/PageScans";
+import { LinkOrigin, LinkPosition } from "./types";
+
+/**
+ * Options for collecting links the serialized HTML does not show
+ */
+export interface LiveDomLinkOptions {
+	includeShadowDom?: boolean;
+	includeIframes?: boolean;
+	capturePopups?: boolean;
+}
+
+/**
+ * A link found in the live DOM, a frame or a popup
+ */
+export interface LiveDomLink {
+	href: string;
+	text: string;
+	position: LinkPosition;
+	origin: LinkOrigin;
+}
+
+/**
+ * Collects links from the rendered page that parsing page.content() misses:
+ * anchors inside open shadow roots, anchors in same-origin iframes, and
+ * URLs the page tries to open in a new window
+ */
+export class LiveDomLinkCollector {
+	private readonly includeShadowDom: boolean;
+	private readonly includeIframes: boolean;
+	private readonly capturePopups: boolean;
+	private popups = new WeakMap<Page, string[]>();
+
+	constructor(options: LiveDomLinkOptions = {}) {
+		this.includeShadowDom = options.includeShadowDom ?? true;
+		this.includeIframes = options.includeIframes ?? true;
+		this.capturePopups = options.capturePopups ?? true;
+	}
+
+	/**
+	 * Start recording popups before the page navigates
+	 */
+	async attach(page: Page): Promise<void> {
+		if (!this.capturePopups || this.popups.has(page)) return;
+
+		const opened: string[] = [];
+		this.popups.set(page, opened);
+		await page.addInitScript(installPopupProbe);
+
+		// New tabs the probe cannot intercept (target=_blank forms, scripted clicks)
+		page.on("popup", async (popup) => {
+			await popup
+				.waitForLoadState("domcontentloaded", { timeout: 5000 })
+				.catch(() => undefined);
+			if (popup.url() !== "about:blank") opened.push(popup.url());
+			await popup.close().catch(() => undefined);
+		});
+	}
+
+	/**
+	 * Shadow DOM, iframe and popup links of the loaded page
+	 */
+	async collect(page: Page): Promise<LiveDomLink[]> {
+		const links: LiveDomLink[] = [];
+
+		if (this.includeShadowDom) {
+			const anchors = await this.collectFromFrame(page.mainFrame(), false);
+			links.push(
+				...anchors.map((anchor) => this.toLink(anchor, LinkOrigin.SHADOW)),
+			);
+		}
+
+		if (this.includeIframes) {
+			const origin = new URL(page.url()).origin;
+			for (const frame of page.frames()) {
+				if (frame === page.mainFrame() || !this.isSameOrigin(frame, origin)) {
+					continue;
+				}
+				const anchors = await this.collectFromFrame(frame, true);
+				links.push(
+					...anchors.map((anchor) => this.toLink(anchor, LinkOrigin.IFRAME)),
+				);
+			}
+		}
+
+		if (this.capturePopups) {
+			const probed = await page.evaluate(readPopups).catch(() => []);
+			const opened = this.popups.get(page) ?? [];
+			this.popups.delete(page);
+
+			Array.from(new Set([...probed, ...opened])).forEach((href) =>
+				links.push({
+					href,
+					text: "",
+					position: LinkPosition.CONTENT,
+					origin: LinkOrigin.POPUP,
+				}),
+			);
+		}
+
+		return links;
+	}
+
+	/**
+	 * Anchors of one frame; the main frame's light DOM is left to the HTML parser
+	 */
+	private async collectFromFrame(
+		frame: Frame,
+		includeLightDom: boolean,
+	): Promise<RawAnchor[]> {
+		try {
+			await frame.evaluate(installLinkPositionProbe, LINK_POSITION_SELECTORS);
+			return await frame.evaluate(collectAnchors, includeLightDom);
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Frames on the page's own origin; about:blank and srcdoc frames inherit it
+	 */
+	private isSameOrigin(frame: Frame, origin: string): boolean {
+		const url = frame.url();
+		if (url === "about:blank" || url === "about:srcdoc") return true;
+		try {
+			return new URL(url).origin === origin;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Describe a raw anchor as a link from the given origin
+	 */
+	private toLink(anchor: RawAnchor, origin: LinkOrigin): LiveDomLink {
+		return {
+			href: anchor.href,
+			text: anchor.text,
+			position: anchor.position as LinkPosition,
+			origin,
+		};
+	}
+}
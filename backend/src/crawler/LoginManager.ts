@@ -0,0 +1,358 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { BrowserContext, Page } from "playwright";
+import { restoreLocalStorage } from "./browser/PageScans";
+import { LoginStep } from "./types";
+import { CrawlConfig } from "../config/CrawlConfig";
+import { Totp } from "../utils/Totp";
+
+type Credentials = NonNullable<CrawlConfig["credentials"]>;
+type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+/**
+ * The initial login failed, so there is no session to crawl with
+ */
+export class LoginFailedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "LoginFailedError";
+	}
+}
+
+/**
+ * Scripted login with persisted session state
+ *
+ * Logs in once (or reuses the storage state saved by a previous run), then
+ * copies the session cookies and localStorage into every browser context the
+ * crawler opens. When a page bounces back to the login URL the session is
+ * considered expired and the login script runs again.
+ */
+export class LoginManager {
+	private readonly loginUrl: string | undefined;
+	private readonly storageStatePath: string;
+	private readonly maxLoginAttempts: number;
+	private storageState: StorageState | null = null;
+	private sessionReady: Promise<void> | null = null;
+	private loginInFlight: Promise<boolean> | null = null;
+	private preparedContexts = new WeakSet<BrowserContext>();
+	private loginAttempts = 0;
+
+	constructor(
+		private credentials: Credentials,
+		startUrl: string,
+	) {
+		this.loginUrl =
+			credentials.loginUrl ??
+			credentials.steps?.find((step) => step.action === "goto")?.url;
+		this.storageStatePath =
+			credentials.storageStatePath ??
+			path.join(".auth", `${new URL(startUrl).hostname}.json`);
+		this.maxLoginAttempts = credentials.maxLoginAttempts ?? 3;
+	}
+
+	/**
+	 * Make sure the page's browser context carries the authenticated session
+	 */
+	async ensureSession(page: Page): Promise<void> {
+		if (!this.sessionReady) {
+			this.sessionReady = this.initializeSession(page.context());
+		}
+		await this.sessionReady;
+		await this.applyStorageState(page.context());
+	}
+
+	/**
+	 * Check whether a request was bounced to the login page
+	 */
+	isLoginRedirect(requestedUrl: string, finalUrl: string): boolean {
+		if (!this.loginUrl) return false;
+		return (
+			this.isSameRoute(finalUrl, this.loginUrl) &&
+			!this.isSameRoute(requestedUrl, this.loginUrl)
+		);
+	}
+
+	/**
+	 * Log in again after the session expired; returns false once attempts run out
+	 */
+	async relogin(context: BrowserContext): Promise<boolean> {
+		if (this.loginAttempts >= this.maxLoginAttempts) {
+			return false;
+		}
+
+		console.log("   🔐 Session expired, logging in again...");
+		await context.clearCookies();
+
+		// Every context has to pick up the fresh session
+		this.preparedContexts = new WeakSet();
+		return this.login(context);
+	}
+
+	/**
+	 * Reuse a saved session if there is one, otherwise log in
+	 */
+	private async initializeSession(context: BrowserContext): Promise<void> {
+		this.storageState = await this.loadStorageState();
+		if (this.storageState) {
+			console.log(`   🔐 Reusing saved session from ${this.storageStatePath}`);
+			return;
+		}
+
+		if (!(await this.login(context))) {
+			throw new LoginFailedError(
+				"Scripted login did not succeed; not crawling without the session",
+			);
+		}
+	}
+
+	/**
+	 * Run the login script in a separate tab; concurrent callers share one attempt
+	 */
+	private login(context: BrowserContext): Promise<boolean> {
+		if (!this.loginInFlight) {
+			this.loginInFlight = this.performLogin(context).finally(() => {
+				this.loginInFlight = null;
+			});
+		}
+		return this.loginInFlight;
+	}
+
+	/**
+	 * Execute the login steps, verify success and persist the session
+	 */
+	private async performLogin(context: BrowserContext): Promise<boolean> {
+		this.loginAttempts++;
+		const page = await context.newPage();
+
+		try {
+			for (const step of this.getSteps()) {
+				await this.runStep(page, step);
+			}
+
+			if (!(await this.detectSuccess(page))) {
+				console.error(
+					`   ❌ Login did not succeed (attempt ${this.loginAttempts}/${this.maxLoginAttempts})`,
+				);
+				return false;
+			}
+
+			this.storageState = await context.storageState();
+			this.preparedContexts.add(context);
+			await this.saveStorageState();
+
+			console.log("   🔐 Login successful, session saved");
+			return true;
+		} catch (error: any) {
+			console.error(`   ❌ Login failed: ${error.message}`);
+			return false;
+		} finally {
+			await page.close().catch(() => undefined);
+		}
+	}
+
+	/**
+	 * Configured login steps, or the classic username/password/submit form
+	 */
+	private getSteps(): LoginStep[] {
+		if (this.credentials.steps && this.credentials.steps.length > 0) {
+			return this.credentials.steps;
+		}
+
+		if (!this.loginUrl) {
+			throw new Error("credentials.loginUrl or credentials.steps is required");
+		}
+
+		const steps: LoginStep[] = [
+			{ action: "goto", url: this.loginUrl },
+			{
+				action: "fill",
+				selector:
+					this.credentials.usernameSelector ||
+					'input[name="username"], input[type="email"]',
+				value: "{{username}}",
+			},
+			{
+				action: "fill",
+				selector:
+					this.credentials.passwordSelector ||
+					'input[name="password"], input[type="password"]',
+				value: "{{password}}",
+			},
+			{
+				action: "click",
+				selector: this.credentials.submitSelector || 'button[type="submit"]',
+			},
+		];
+
+		// Second-factor codes usually live on a follow-up screen
+		if (this.credentials.totpSecret) {
+			const totpSelector =
+				this.credentials.totpSelector ||
+				'input[autocomplete="one-time-code"], input[name*="otp" i], input[name*="code" i]';
+			steps.push(
+				{ action: "wait", selector: totpSelector },
+				{ action: "fill", selector: totpSelector, value: "{{totp}}" },
+				{ action: "press", selector: totpSelector, key: "Enter" },
+			);
+		}
+
+		return steps;
+	}
+
+	/**
+	 * Perform a single login step
+	 */
+	private async runStep(page: Page, step: LoginStep): Promise<void> {
+		const timeout = step.timeoutMs ?? 15000;
+		const selector = () => {
+			if (!step.selector) {
+				throw new Error(`Login step "${step.action}" needs a selector`);
+			}
+			return step.selector;
+		};
+
+		switch (step.action) {
+			case "goto":
+				await page.goto(this.resolveValue(step.url ?? this.loginUrl ?? ""), {
+					waitUntil: "domcontentloaded",
+					timeout,
+				});
+				break;
+			case "fill":
+				await page.fill(selector(), this.resolveValue(step.value ?? ""), {
+					timeout,
+				});
+				break;
+			case "click":
+				await page.click(selector(), { timeout });
+				break;
+			case "press":
+				await page.press(selector(), step.key ?? "Enter", { timeout });
+				break;
+			case "wait":
+				if (step.selector) {
+					await page.waitForSelector(step.selector, { timeout });
+				} else {
+					await page.waitForTimeout(step.timeoutMs ?? 1000);
+				}
+				break;
+		}
+	}
+
+	/**
+	 * Substitute {{username}}, {{password}} and {{totp}} placeholders
+	 */
+	private resolveValue(value: string): string {
+		return value
+			.replace(/\{\{username\}\}/g, () => this.credentials.username)
+			.replace(/\{\{password\}\}/g, () => this.credentials.password)
+			.replace(/\{\{totp\}\}/g, () => {
+				if (!this.credentials.totpSecret) {
+					throw new Error("{{totp}} used without credentials.totpSecret");
+				}
+				return Totp.generate(this.credentials.totpSecret);
+			});
+	}
+
+	/**
+	 * Decide whether the login worked: configured selector or URL, otherwise
+	 * "we left the login page and no password field is visible"
+	 */
+	private async detectSuccess(page: Page): Promise<boolean> {
+		const timeout = 15000;
+
+		if (this.credentials.successSelector) {
+			return page
+				.waitForSelector(this.credentials.successSelector, { timeout })
+				.then(() => true)
+				.catch(() => false);
+		}
+
+		if (this.credentials.successUrlPattern) {
+			const pattern = new RegExp(this.credentials.successUrlPattern);
+			return page
+				.waitForURL(pattern, { timeout })
+				.then(() => true)
+				.catch(() => false);
+		}
+
+		await page
+			.waitForLoadState("networkidle", { timeout: 10000 })
+			.catch(() => undefined);
+
+		const stillOnLoginPage =
+			this.loginUrl !== undefined &&
+			this.isSameRoute(page.url(), this.loginUrl);
+		const passwordVisible = await page
+			.locator('input[type="password"]')
+			.first()
+			.isVisible()
+			.catch(() => false);
+
+		return !stillOnLoginPage && !passwordVisible;
+	}
+
+	/**
+	 * Copy the saved cookies and localStorage into a browser context once
+	 */
+	private async applyStorageState(context: BrowserContext): Promise<void> {
+		if (!this.storageState || this.preparedContexts.has(context)) return;
+		this.preparedContexts.add(context);
+
+		if (this.storageState.cookies.length > 0) {
+			await context.addCookies(this.storageState.cookies);
+		}
+
+		if (this.storageState.origins.length > 0) {
+			await context.addInitScript(
+				restoreLocalStorage,
+				this.storageState.origins,
+			);
+		}
+	}
+
+	/**
+	 * Load storage state saved by a previous run
+	 */
+	private async loadStorageState(): Promise<StorageState | null> {
+		try {
+			const content = await fs.readFile(this.storageStatePath, "utf-8");
+			return JSON.parse(content) as StorageState;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Persist the current session for later pages and runs
+	 */
+	private async saveStorageState(): Promise<void> {
+		try {
+			await fs.mkdir(path.dirname(this.storageStatePath), { recursive: true });
+			await fs.writeFile(
+				this.storageStatePath,
+				JSON.stringify(this.storageState, null, 2),
+			);
+		} catch (error: any) {
+			console.warn(
+				`   ⚠️  Could not save session to ${this.storageStatePath}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * Compare two URLs by origin and path
+	 */
+	private isSameRoute(a: string, b: string): boolean {
+		try {
+			const urlA = new URL(a);
+			const urlB = new URL(b);
+			return (
+				urlA.origin === urlB.origin &&
+				urlA.pathname.replace(/\/$/, "") === urlB.pathname.replace(/\/$/, "")
+			);
+		} catch {
+			return false;
+		}
+	}
+}
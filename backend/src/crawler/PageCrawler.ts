@@ -1,9 +1,89 @@
 import * as cheerio from "cheerio";
-import { PlaywrightCrawler } from "crawlee";
-import { Link, LinkPosition, PageMetadata } from "./types";
+import { createHash } from "crypto";
+import {
+	BasicCrawler,
+	CheerioCrawler,
+	CheerioCrawlerOptions,
+	CriticalError,
+	EnqueueLinksOptions,
+	Log,
+	NonRetryableError,
+	PlaywrightCrawler,
+	PlaywrightCrawlerOptions,
+	PlaywrightHook,
+	Request,
+	RequestQueue,
+	log as crawleeLog,
+} from "crawlee";
+import { BrowserContext, Page, Response } from "playwright";
+import {
+	ChangeReport,
+	Link,
+	LinkDiscovery,
+	LinkOrigin,
+	LinkProminence,
+	LinkPosition,
+	PageForm,
+	PageMetadata,
+	PageScreenshots,
+	PageState,
+	SkipReason,
+	SkippedUrl,
+	TrapFamily,
+} from "./types";
+import { RobotsTxt } from "./RobotsTxt";
+import { SitemapLoader } from "./SitemapLoader";
+import { HostRateLimiter } from "./HostRateLimiter";
+import { RetryPolicy, RetryableStatusError } from "./RetryPolicy";
+import { InteractiveDiscovery } from "./InteractiveDiscovery";
+import { LoginFailedError, LoginManager } from "./LoginManager";
+import { ScreenshotCapturer } from "./ScreenshotCapturer";
+import { ApiRecorder } from "./ApiRecorder";
+import { IncrementalState } from "./IncrementalState";
+import { SourceIndex } from "./sources/SourceIndex";
+import { DeviceProfiles } from "./DeviceProfiles";
+import { PriorityFrontier } from "./PriorityFrontier";
+import { TrapDetector } from "./TrapDetector";
+import { LiveDomLinkCollector } from "./LiveDomLinks";
+import { LinkPositionDetector } from "./LinkPositionDetector";
+import { measureAnchors } from "./browser/PageScans";
+import {
+	CheckpointState,
+	CrawlCheckpoint,
+	PendingRequest,
+} from "./CrawlCheckpoint";
 import { UrlUtils } from "../utils/UrlUtils";
+import { RenderSignals } from "../utils/RenderSignals";
 import { CrawlConfig, CrawlConstraintsImpl } from "../config/CrawlConfig";
 
+/**
+ * The parts of a crawling context that page processing needs
+ */
+interface HandlerContext {
+	request: Request;
+	log: Log;
+}
+
+/**
+ * The crawling context errorHandler needs to add a retry back
+ */
+interface RetryContext extends HandlerContext {
+	crawler: Pick<BasicCrawler, "addRequests">;
+}
+
+/**
+ * A fetched page, whether it was rendered in the browser or fetched over HTTP
+ */
+interface FetchedPage extends HandlerContext {
+	page?: Page; // browser only
+	status?: number;
+	headers: Record<string, string | undefined>;
+	finalUrl: string;
+	redirectChain: string[];
+	readHtml: () => Promise<string>;
+	enqueue: (requests: PendingRequest[]) => Promise<void>;
+}
+
 /**
  * Handles crawling of individual pages and extraction of links
  */
@@ -11,50 +91,488 @@ export class PageCrawler {
 	private visitedUrls: Set<string> = new Set();
 	private pages: Map<string, PageMetadata> = new Map();
 	private crawlStartTime: number = 0;
+	private skippedUrls: Map<string, SkippedUrl> = new Map();
+	private trapDetector: TrapDetector | null = null;
+	private robotsPolicies: Map<string, Promise<RobotsTxt>> = new Map();
+	private sitemapUrls: Set<string> = new Set();
+	private aliasUrls: Map<string, string> = new Map(); // alias -> canonical
+	private canonicalClaims: Map<string, Set<string>> = new Map(); // target -> paths
+	private ignoredCanonicals: Set<string> = new Set();
+	private readonly MAX_CANONICAL_CLAIMS = 10;
+	private frontier: Map<string, PendingRequest> = new Map(); // every enqueued URL
+	private checkpoint: CrawlCheckpoint | null = null;
+	private checkpointStartUrl: string = "";
+	private activeCrawler: PlaywrightCrawler | CheerioCrawler | null = null;
+	private stopRequested: boolean = false;
+	private changeReport: ChangeReport | null = null;
 
 	/**
-	 * Detect the position/context of a link within the page structure
+	 * User agent presented to sites and matched against robots.txt groups
 	 */
-	private detectLinkPosition(
-		element: cheerio.Element,
-		$: cheerio.Root,
-	): LinkPosition {
-		const $element = $(element);
-		const parents = $element.parents();
+	private getUserAgent(config: CrawlConfig): string {
+		return (
+			config.constraints?.userAgent ??
+			config.userAgent ??
+			"IntelligentUserFlowMapper/1.0"
+		);
+	}
 
-		if (
-			parents.is("header, nav") ||
-			$element.closest("header, nav").length > 0
-		) {
-			return LinkPosition.HEADER;
+	/**
+	 * Browser launch settings; a device profile is applied to the whole context
+	 * so touch, pixel ratio and mobile layout take effect before the first paint
+	 */
+	private getLaunchContext(config: CrawlConfig) {
+		const device = config.device ? DeviceProfiles.resolve(config.device) : null;
+		return {
+			// A fixed user agent also turns off crawlee's random fingerprints
+			userAgent: device?.userAgent,
+			launchOptions: {
+				headless: config.constraints?.headless ?? true,
+				...(device ? DeviceProfiles.toLaunchOptions(device) : {}),
+			},
+		};
+	}
+
+	/**
+	 * User agent sent with page requests: the emulated device's when one is set
+	 */
+	private getRequestUserAgent(config: CrawlConfig): string {
+		return config.device
+			? DeviceProfiles.resolve(config.device).userAgent
+			: this.getUserAgent(config);
+	}
+
+	/**
+	 * Get the (cached) robots.txt policy for the origin of a URL
+	 */
+	private getRobotsPolicy(
+		url: string,
+		config: CrawlConfig,
+	): Promise<RobotsTxt> {
+		const origin = new URL(url).origin;
+
+		if (!this.robotsPolicies.has(origin)) {
+			this.robotsPolicies.set(
+				origin,
+				RobotsTxt.fetch(
+					origin,
+					this.getUserAgent(config),
+					config.constraints?.requestTimeoutMs,
+				),
+			);
 		}
 
-		if (parents.is("footer") || $element.closest("footer").length > 0) {
-			return LinkPosition.FOOTER;
+		return this.robotsPolicies.get(origin)!;
+	}
+
+	/**
+	 * Check a URL against robots.txt when the config asks us to respect it
+	 */
+	private async isAllowedByRobots(
+		url: string,
+		config: CrawlConfig,
+	): Promise<boolean> {
+		if (!config.respectRobotsTxt) return true;
+
+		try {
+			const policy = await this.getRobotsPolicy(url, config);
+			return policy.isAllowed(url);
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Remember a URL the crawl policy excluded, keeping the first reason seen
+	 */
+	private recordSkippedUrl(
+		url: string,
+		reason: SkipReason,
+		foundOn?: string,
+	): void {
+		if (this.skippedUrls.has(url)) return;
+		this.skippedUrls.set(url, { url, reason, foundOn });
+	}
+
+	/**
+	 * Find crawlable page URLs listed in the site's sitemaps
+	 */
+	private async discoverSitemapUrls(config: CrawlConfig): Promise<string[]> {
+		const { startUrl, sitemap } = config;
+		const robots = await this.getRobotsPolicy(startUrl, config);
+		const constraints = new CrawlConstraintsImpl(config);
+
+		const sitemapLocations = [
+			...(sitemap?.sitemapUrls ?? []),
+			...robots.getSitemaps(),
+		];
+		if (sitemapLocations.length === 0) {
+			sitemapLocations.push(new URL("/sitemap.xml", startUrl).href);
+		}
+
+		const loader = new SitemapLoader(
+			this.getUserAgent(config),
+			config.constraints?.requestTimeoutMs,
+		);
+		const listedUrls = await loader.load(
+			sitemapLocations,
+			sitemap?.maxUrls ?? 1000,
+		);
+
+		const seeds: string[] = [];
+		for (const url of listedUrls) {
+			if (!constraints.shouldFollowLink(url, startUrl)) continue;
+
+			const normalizedUrl = UrlUtils.normalize(url, config.canonicalization);
+			if (!(await this.isAllowedByRobots(url, config))) {
+				this.recordSkippedUrl(normalizedUrl, SkipReason.ROBOTS);
+				continue;
+			}
+
+			this.sitemapUrls.add(normalizedUrl);
+			seeds.push(UrlUtils.toRequestUrl(url, config.canonicalization));
+		}
+
+		return seeds;
+	}
+
+	/**
+	 * Collect the URLs a navigation was redirected through, oldest first
+	 */
+	private getRedirectChain(response: Response | null | undefined): string[] {
+		const chain: string[] = [];
+		let redirected = response?.request().redirectedFrom();
+
+		while (redirected) {
+			chain.unshift(redirected.url());
+			redirected = redirected.redirectedFrom();
 		}
 
+		return chain;
+	}
+
+	/**
+	 * Classify a failed request as a timeout, HTTP error or generic failure
+	 */
+	private classifyFailure(error: Error, status?: number): PageState {
 		if (
-			parents.is('aside, [class*="sidebar"]') ||
-			$element.closest('aside, [class*="sidebar"]').length > 0
+			error.name === "TimeoutError" ||
+			/timed? ?out|timeout/i.test(error.message)
 		) {
-			return LinkPosition.SIDEBAR;
+			return PageState.TIMEOUT;
 		}
 
-		const classList = $element.attr("class") || "";
-		const idList = $element.attr("id") || "";
-		const navKeywords = ["nav", "menu", "header"];
+		if (status !== undefined && status >= 400) {
+			return PageState.HTTP_ERROR;
+		}
 
-		if (
-			navKeywords.some(
-				(keyword) =>
-					classList.toLowerCase().includes(keyword) ||
-					idList.toLowerCase().includes(keyword),
+		return PageState.FAILED;
+	}
+
+	/**
+	 * Resolve the canonical URL of a page: its rel="canonical" target when that
+	 * is crawlable, otherwise the URL the browser ended up on
+	 */
+	private resolveCanonicalUrl(
+		html: string,
+		finalUrl: string,
+		config: CrawlConfig,
+	): string {
+		const $ = cheerio.load(html);
+		const href = $('link[rel~="canonical"]').first().attr("href");
+
+		if (href) {
+			try {
+				const canonicalUrl = new URL(href, finalUrl).href;
+				const constraints = new CrawlConstraintsImpl(config);
+				if (constraints.shouldFollowLink(canonicalUrl, finalUrl)) {
+					// rel="canonical" cannot express hash routes: carry ours over
+					const hashRoute = UrlUtils.getHashRoute(
+						new URL(finalUrl).hash,
+						config.canonicalization,
+					);
+					const canonical = new URL(canonicalUrl);
+					if (hashRoute) canonical.hash = hashRoute;
+					const normalizedCanonical = UrlUtils.normalize(
+						canonical.href,
+						config.canonicalization,
+					);
+					if (
+						!this.isMisplacedCanonical(normalizedCanonical, finalUrl, config)
+					) {
+						return normalizedCanonical;
+					}
+				}
+			} catch {
+				// Ignore malformed canonical hints
+			}
+		}
+
+		return UrlUtils.normalize(finalUrl, config.canonicalization);
+	}
+
+	/**
+	 * Catch the template-wide rel="canonical" misconfiguration: every page
+	 * pointing at the home page (or one other page) would collapse the crawl.
+	 * A cross-path canonical is ignored when it targets the start page, or
+	 * once too many distinct paths have claimed the same target.
+	 */
+	private isMisplacedCanonical(
+		canonicalUrl: string,
+		finalUrl: string,
+		config: CrawlConfig,
+	): boolean {
+		const pagePath = new URL(
+			UrlUtils.normalize(finalUrl, config.canonicalization),
+		).pathname;
+		if (new URL(canonicalUrl).pathname === pagePath) return false;
+
+		const claims = this.canonicalClaims.get(canonicalUrl) ?? new Set<string>();
+		claims.add(pagePath);
+		this.canonicalClaims.set(canonicalUrl, claims);
+
+		const pointsAtStart =
+			canonicalUrl ===
+			UrlUtils.normalize(config.startUrl, config.canonicalization);
+		const misplaced = pointsAtStart || claims.size > this.MAX_CANONICAL_CLAIMS;
+
+		if (misplaced && !this.ignoredCanonicals.has(canonicalUrl)) {
+			this.ignoredCanonicals.add(canonicalUrl);
+			console.warn(
+				`   ⚠️  Ignoring rel="canonical" to ${canonicalUrl} from other paths (${pointsAtStart ? "it is the start page" : `${claims.size} paths point at it`})`,
+			);
+		}
+
+		return misplaced;
+	}
+
+	/**
+	 * Record aliases of a canonical page, merging into an existing page if any
+	 */
+	private registerAliases(canonicalUrl: string, aliases: string[]): void {
+		aliases.forEach((alias) => this.aliasUrls.set(alias, canonicalUrl));
+
+		const page = this.pages.get(canonicalUrl);
+		if (page) {
+			page.aliases = Array.from(new Set([...(page.aliases ?? []), ...aliases]));
+		}
+	}
+
+	/**
+	 * Point links at canonical pages instead of their aliases
+	 */
+	private resolveAliasLinks(): void {
+		if (this.aliasUrls.size === 0) return;
+
+		this.pages.forEach((page) => {
+			page.outgoingLinks.forEach((link) => {
+				const canonicalUrl = this.aliasUrls.get(link.href);
+				if (canonicalUrl) link.href = canonicalUrl;
+			});
+		});
+
+		console.log(`   🔀 Merged ${this.aliasUrls.size} URL aliases`);
+	}
+
+	/**
+	 * Summarize page layout as a set of short tag paths (e.g. "main>section>div")
+	 * so pages built from the same template can be compared
+	 */
+	private computeStructureFingerprint(html: string): string[] {
+		const $ = cheerio.load(html);
+		const paths = new Set<string>();
+
+		$("body *")
+			.slice(0, 2000)
+			.each((_, element) => {
+				const tagPath = [element, ...$(element).parents().toArray()]
+					.slice(0, 3)
+					.map((node) => (node as cheerio.TagElement).tagName)
+					.reverse()
+					.join(">");
+				paths.add(tagPath);
+			});
+
+		return Array.from(paths).sort().slice(0, 300);
+	}
+
+	/**
+	 * Hash what a visitor sees (text, links, form targets) so markup noise such
+	 * as nonces and inline scripts does not register as a change
+	 */
+	private computeContentHash(html: string): string {
+		const $ = cheerio.load(html);
+		$("script, style, noscript, template").remove();
+
+		const text = $("body").text().replace(/\s+/g, " ").trim();
+		const hrefs = $("a[href]")
+			.toArray()
+			.map((element) => $(element).attr("href"));
+		const actions = $("form")
+			.toArray()
+			.map((element) => $(element).attr("action") ?? "");
+
+		return createHash("sha256")
+			.update([$("title").text(), text, ...hrefs, ...actions].join("\n"))
+			.digest("hex");
+	}
+
+	/**
+	 * Cookie header carrying the preset cookies for a URL (static requests)
+	 */
+	private getCookieHeader(url: string, config: CrawlConfig): string | null {
+		const host = new URL(url).hostname;
+		const cookies = (config.cookies ?? []).filter((cookie) => {
+			const domain = (
+				cookie.domain ?? new URL(config.startUrl).hostname
+			).replace(/^\./, "");
+			return host === domain || host.endsWith(`.${domain}`);
+		});
+
+		return cookies.length > 0
+			? cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ")
+			: null;
+	}
+
+	/**
+	 * Run one crawler over a batch of requests, then drop its queue
+	 */
+	private async runCrawler(
+		crawler: PlaywrightCrawler | CheerioCrawler,
+		requestQueue: RequestQueue,
+		requests: PendingRequest[],
+		config: CrawlConfig,
+	): Promise<void> {
+		this.activeCrawler = crawler;
+		await crawler.run(
+			requests.map((request) => ({
+				url: request.url,
+				uniqueKey: UrlUtils.normalize(request.url, config.canonicalization),
+				userData: { depth: request.depth, fromSitemap: request.fromSitemap },
+				keepUrlFragment: true,
+			})),
+		);
+		await requestQueue.drop();
+	}
+
+	/**
+	 * Open a request queue private to one crawl phase
+	 */
+	private openRequestQueue(phase: string): Promise<RequestQueue> {
+		return RequestQueue.open(
+			`${phase}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+		);
+	}
+
+	/**
+	 * Remember enqueued requests so unprocessed ones can be checkpointed
+	 */
+	private trackPending(requests: PendingRequest[], config: CrawlConfig): void {
+		requests.forEach((request) => {
+			const key = UrlUtils.normalize(request.url, config.canonicalization);
+			const existing = this.frontier.get(key);
+			if (!existing || request.depth < existing.depth) {
+				this.frontier.set(key, request);
+			}
+		});
+	}
+
+	/**
+	 * Enqueued requests that have not produced a page, alias or skip yet
+	 */
+	private getPendingRequests(): PendingRequest[] {
+		return Array.from(this.frontier.entries())
+			.filter(
+				([url]) =>
+					!this.pages.has(url) &&
+					!this.aliasUrls.has(url) &&
+					!this.skippedUrls.has(url),
 			)
-		) {
-			return LinkPosition.NAVIGATION;
+			.map(([, request]) => request);
+	}
+
+	/**
+	 * Write the current crawl state to the checkpoint directory
+	 */
+	private async saveCheckpoint(completed: boolean = false): Promise<void> {
+		if (!this.checkpoint) return;
+
+		try {
+			await this.checkpoint.save({
+				startUrl: this.checkpointStartUrl,
+				completed,
+				visitedUrls: Array.from(this.visitedUrls),
+				pending: completed ? [] : this.getPendingRequests(),
+				pages: Array.from(this.pages.values()),
+				skippedUrls: Array.from(this.skippedUrls.values()),
+				aliasUrls: Array.from(this.aliasUrls.entries()),
+				sitemapUrls: Array.from(this.sitemapUrls),
+				trapDetector: this.trapDetector?.getState(),
+			});
+		} catch (error: any) {
+			console.warn(`   ⚠️  Could not save checkpoint: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Load crawl state from a checkpoint; pending URLs are crawled again
+	 */
+	private restoreCheckpoint(state: CheckpointState, config: CrawlConfig): void {
+		const pendingUrls = new Set(
+			state.pending.map((request) =>
+				UrlUtils.normalize(request.url, config.canonicalization),
+			),
+		);
+
+		state.pages.forEach((page) => this.pages.set(page.url, page));
+		state.visitedUrls
+			.filter((url) => !pendingUrls.has(url))
+			.forEach((url) => this.visitedUrls.add(url));
+		state.skippedUrls.forEach((entry) =>
+			this.skippedUrls.set(entry.url, entry),
+		);
+		state.aliasUrls.forEach(([alias, canonical]) =>
+			this.aliasUrls.set(alias, canonical),
+		);
+		state.sitemapUrls.forEach((url) => this.sitemapUrls.add(url));
+		if (state.trapDetector) {
+			this.trapDetector?.restoreState(state.trapDetector);
+		}
+		this.trackPending(state.pending, config);
+	}
+
+	/**
+	 * Stop the running crawl gracefully and checkpoint what was collected
+	 */
+	async stop(): Promise<void> {
+		this.stopRequested = true;
+		this.activeCrawler?.stop("Crawl interrupted, finishing in-flight pages");
+
+		if (this.checkpoint) {
+			await this.saveCheckpoint();
+			console.log(`   💾 Checkpoint saved to ${this.checkpoint.getPath()}`);
 		}
+	}
 
-		return LinkPosition.CONTENT;
+	/**
+	 * Pages added, changed and removed since the previous snapshot (incremental mode)
+	 */
+	getChangeReport(): ChangeReport | null {
+		return this.changeReport;
+	}
+
+	/**
+	 * URLs excluded by crawl policy during the last crawl
+	 */
+	getSkippedUrls(): SkippedUrl[] {
+		return Array.from(this.skippedUrls.values());
+	}
+
+	/**
+	 * URL families suppressed as crawler traps during the last crawl
+	 */
+	getTrapFamilies(): TrapFamily[] {
+		return this.trapDetector?.getFamilies() ?? [];
 	}
 
 	/**
@@ -64,6 +582,7 @@ export class PageCrawler {
 		html: string,
 		baseUrl: string,
 		config: CrawlConfig,
+		prominence: LinkProminence[] = [],
 	): Link[] {
 		const $ = cheerio.load(html);
 		const links: Link[] = [];
@@ -71,7 +590,11 @@ export class PageCrawler {
 		const constraints = new CrawlConstraintsImpl(config);
 		const maxLinks = config.constraints?.maxLinksPerPage ?? 50;
 
-		$("a[href]").each((_, element) => {
+		// Measurements line up with the anchors only if the DOM did not change in between
+		const anchors = $("a[href]");
+		const measured = prominence.length === anchors.length;
+
+		anchors.each((index, element) => {
 			if (links.length >= maxLinks) return false; // Stop when limit reached
 
 			const href = $(element).attr("href");
@@ -85,18 +608,28 @@ export class PageCrawler {
 					return;
 				}
 
-				const normalizedUrl = UrlUtils.normalize(absoluteUrl);
+				const normalizedUrl = UrlUtils.normalize(
+					absoluteUrl,
+					config.canonicalization,
+				);
 				const linkText = $(element).text().trim();
-				const position = this.detectLinkPosition(element, $);
+				const position = LinkPositionDetector.detect(element, $);
 
 				const parent = $(element).parent();
 				const context = parent.text().trim().substring(0, 100);
 
 				links.push({
 					href: normalizedUrl,
+					fetchUrl: UrlUtils.toRequestUrl(absoluteUrl, config.canonicalization),
 					text: linkText,
 					position,
 					context,
+					discoveredBy: LinkDiscovery.ANCHOR,
+					origin:
+						$(element).attr("target") === "_blank"
+							? LinkOrigin.POPUP
+							: LinkOrigin.DOCUMENT,
+					prominence: measured ? prominence[index] : undefined,
 				});
 			} catch (error) {
 				// Skip invalid URLs
@@ -106,186 +639,1320 @@ export class PageCrawler {
 		return links;
 	}
 
+	/**
+	 * Measure every anchor's rendered box and styling, in document order
+	 */
+	private async measureLinkProminence(page: Page): Promise<LinkProminence[]> {
+		return page.evaluate(measureAnchors).catch(() => []);
+	}
+
+	/**
+	 * Extract forms with their target, method, fields and submit button text
+	 */
+	private extractForms(
+		html: string,
+		baseUrl: string,
+		config: CrawlConfig,
+	): PageForm[] {
+		const $ = cheerio.load(html);
+		const forms: PageForm[] = [];
+		const constraints = new CrawlConstraintsImpl(config);
+
+		$("form").each((_, element) => {
+			const $form = $(element);
+			const actionAttr = $form.attr("action")?.trim();
+
+			try {
+				// A missing or empty action submits back to the page itself
+				const action = new URL(actionAttr || baseUrl, baseUrl).href;
+				if (!constraints.shouldFollowLink(action, baseUrl)) return;
+
+				const fields = $form
+					.find("input, select, textarea")
+					.toArray()
+					.map((field) => {
+						const $field = $(field);
+						const tag = (field as cheerio.TagElement).tagName.toLowerCase();
+						return {
+							name: $field.attr("name") ?? "",
+							type:
+								tag === "input"
+									? ($field.attr("type") ?? "text").toLowerCase()
+									: tag,
+							required: $field.attr("required") !== undefined,
+						};
+					})
+					.filter(
+						(field) =>
+							field.name &&
+							!["submit", "button", "image", "reset"].includes(field.type),
+					);
+
+				const $submit = $form
+					.find(
+						'button[type="submit"], button:not([type]), input[type="submit"]',
+					)
+					.first();
+				const submitText = (
+					$submit.is("input") ? ($submit.attr("value") ?? "") : $submit.text()
+				).trim();
+
+				forms.push({
+					action: UrlUtils.normalize(action, config.canonicalization),
+					fetchUrl: UrlUtils.toRequestUrl(action, config.canonicalization),
+					method: ($form.attr("method") ?? "GET").toUpperCase(),
+					fields,
+					submitText,
+					position: LinkPositionDetector.detect(element, $),
+				});
+			} catch {
+				// Skip forms with unparsable actions
+			}
+		});
+
+		return forms;
+	}
+
+	/**
+	 * Add shadow DOM, iframe and popup links that parsing the HTML missed,
+	 * within what is left of the per-page link budget
+	 */
+	private async collectLiveDomLinks(
+		collector: LiveDomLinkCollector,
+		page: Page,
+		url: string,
+		links: Link[],
+		config: CrawlConfig,
+	): Promise<Link[]> {
+		const constraints = new CrawlConstraintsImpl(config);
+		const knownHrefs = new Set(links.map((link) => link.href));
+		const budget = (config.constraints?.maxLinksPerPage ?? 50) - links.length;
+		const collected: Link[] = [];
+
+		for (const liveLink of await collector.collect(page)) {
+			if (collected.length >= budget) break;
+			if (!constraints.shouldFollowLink(liveLink.href, url)) continue;
+
+			const href = UrlUtils.normalize(liveLink.href, config.canonicalization);
+			if (knownHrefs.has(href)) continue;
+			knownHrefs.add(href);
+
+			collected.push({
+				href,
+				fetchUrl: UrlUtils.toRequestUrl(liveLink.href, config.canonicalization),
+				text: liveLink.text,
+				position: liveLink.position,
+				context: liveLink.text,
+				discoveredBy: LinkDiscovery.ANCHOR,
+				origin: liveLink.origin,
+			});
+		}
+
+		return collected;
+	}
+
+	/**
+	 * Click through the page in a sandboxed tab and add navigations that
+	 * static anchor extraction missed
+	 */
+	private async discoverInteractiveLinks(
+		discovery: InteractiveDiscovery,
+		page: Page,
+		url: string,
+		links: Link[],
+		config: CrawlConfig,
+	): Promise<Link[]> {
+		const constraints = new CrawlConstraintsImpl(config);
+		const knownHrefs = new Set(links.map((link) => link.href));
+		const discovered: Link[] = [];
+
+		const navigations = await discovery.discover(page.context(), url);
+		navigations.forEach((navigation) => {
+			if (!constraints.shouldFollowLink(navigation.href, url)) return;
+
+			const href = UrlUtils.normalize(navigation.href, config.canonicalization);
+			if (knownHrefs.has(href)) return;
+			knownHrefs.add(href);
+
+			discovered.push({
+				href,
+				fetchUrl: UrlUtils.toRequestUrl(
+					navigation.href,
+					config.canonicalization,
+				),
+				text: navigation.text,
+				position: navigation.position,
+				context: navigation.text,
+				discoveredBy: LinkDiscovery.INTERACTION,
+				origin: navigation.opensNewWindow ? LinkOrigin.POPUP : undefined,
+				trigger: navigation.trigger,
+			});
+		});
+
+		if (discovered.length > 0) {
+			console.log(
+				`   🖱️  ${discovered.length} interactive link(s) found on ${url}`,
+			);
+		}
+
+		return discovered;
+	}
+
+	/**
+	 * Report changes against the previous snapshot and write the new one
+	 */
+	private async finishIncrementalCrawl(
+		incrementalState: IncrementalState | null,
+		snapshotPath: string,
+	): Promise<void> {
+		if (incrementalState) {
+			this.changeReport = incrementalState.buildChangeReport(this.pages);
+			console.log(`\n♻️  Changes since last crawl:`);
+			console.log(`   Added: ${this.changeReport.added.length}`);
+			console.log(`   Changed: ${this.changeReport.changed.length}`);
+			console.log(`   Removed: ${this.changeReport.removed.length}`);
+			console.log(`   Unchanged: ${this.changeReport.unchanged}`);
+		}
+
+		// A partial crawl would make unvisited pages look removed next time
+		if (this.stopRequested) return;
+
+		try {
+			await IncrementalState.save(snapshotPath, this.pages);
+		} catch (error: any) {
+			console.warn(
+				`   ⚠️  Could not write crawl snapshot ${snapshotPath}: ${error.message}`,
+			);
+		}
+	}
+
+	/**
+	 * Navigation hooks that carry preset cookies and the logged-in session
+	 */
+	private createSessionHooks(config: CrawlConfig): {
+		loginManager: LoginManager | null;
+		hooks: PlaywrightHook[];
+	} {
+		const { credentials, startUrl } = config;
+		const loginManager =
+			credentials && (credentials.loginUrl || credentials.steps?.length)
+				? new LoginManager(credentials, startUrl)
+				: null;
+		const presetCookies = (config.cookies ?? []).map((cookie) => ({
+			name: cookie.name,
+			value: cookie.value,
+			domain: cookie.domain ?? new URL(startUrl).hostname,
+			path: cookie.path ?? "/",
+		}));
+		const cookieContexts = new WeakSet<BrowserContext>();
+
+		const hooks: PlaywrightHook[] = [
+			async ({ page }) => {
+				// Preset cookies (e.g. a persona's session) once per browser context
+				const context = page.context();
+				if (presetCookies.length > 0 && !cookieContexts.has(context)) {
+					cookieContexts.add(context);
+					await context.addCookies(presetCookies);
+				}
+			},
+			async ({ page }) => {
+				// Restore (or establish) the logged-in session in this context;
+				// without one every page would be crawled anonymously, so stop
+				if (loginManager) {
+					await loginManager.ensureSession(page).catch((error) => {
+						throw error instanceof LoginFailedError
+							? new CriticalError(error.message)
+							: error;
+					});
+				}
+			},
+		];
+
+		return { loginManager, hooks };
+	}
+
+	/**
+	 * Screenshot a chosen set of pages after the crawl (screenshots.scope "key")
+	 */
+	async captureScreenshots(
+		urls: string[],
+		config: CrawlConfig,
+	): Promise<Map<string, PageScreenshots>> {
+		const screenshots = new Map<string, PageScreenshots>();
+		if (urls.length === 0) return screenshots;
+
+		const { constraints } = config;
+		const capturer = new ScreenshotCapturer(config.screenshots);
+		const { hooks } = this.createSessionHooks(config);
+
+		console.log(`\n📸 Capturing screenshots of ${urls.length} key pages...`);
+
+		const requestQueue = await this.openRequestQueue("screenshots");
+		const screenshotCrawler = new PlaywrightCrawler({
+			requestQueue,
+			maxConcurrency: constraints?.maxConcurrency ?? 3,
+			maxRequestRetries: 1,
+			sessionPoolOptions: {
+				persistStateKey: `SESSION_POOL_screenshots-${Date.now()}`,
+			},
+			navigationTimeoutSecs: (constraints?.navigationTimeoutMs ?? 30000) / 1000,
+			launchContext: this.getLaunchContext(config),
+			preNavigationHooks: hooks,
+			async requestHandler({ page, request }) {
+				if (constraints?.viewport && !config.device) {
+					await page.setViewportSize(constraints.viewport);
+				}
+				await page
+					.waitForLoadState("networkidle", { timeout: 5000 })
+					.catch(() => undefined);
+
+				screenshots.set(
+					request.userData.pageUrl as string,
+					await capturer.capture(page),
+				);
+			},
+			failedRequestHandler({ request }, error) {
+				console.warn(
+					`   ⚠️  Could not screenshot ${request.url}: ${error.message}`,
+				);
+			},
+		});
+
+		await screenshotCrawler.run(
+			urls.map((url) => ({ url, uniqueKey: url, userData: { pageUrl: url } })),
+		);
+
+		console.log(`   📸 Captured ${screenshots.size}/${urls.length} pages`);
+		return screenshots;
+	}
+
 	/**
 	 * Create crawler instance with configuration
 	 */
 	async crawl(config: CrawlConfig): Promise<Map<string, PageMetadata>> {
-		const { startUrl, maxDepth, maxPages, credentials, constraints } = config;
+		// Offline sources never touch the network, so robots.txt and sitemaps are off
+		if (config.source) {
+			config = { ...config, respectRobotsTxt: false, sitemap: undefined };
+		}
+
+		const { startUrl, maxDepth, maxPages, constraints } = config;
 		const baseDomain = UrlUtils.getDomain(startUrl);
-		const normalizedStartUrl = UrlUtils.normalize(startUrl);
+		const normalizedStartUrl = UrlUtils.normalize(
+			startUrl,
+			config.canonicalization,
+		);
 		this.crawlStartTime = Date.now();
+		const crawlId = `${this.crawlStartTime}-${Math.random().toString(36).slice(2, 8)}`;
 
 		const visitedUrls = this.visitedUrls;
 		const pages = this.pages;
 		const extractLinks = this.extractLinks.bind(this);
+		const extractForms = this.extractForms.bind(this);
+		const measureLinkProminence = this.measureLinkProminence.bind(this);
+		const discoverInteractiveLinks = this.discoverInteractiveLinks.bind(this);
+		const collectLiveDomLinks = this.collectLiveDomLinks.bind(this);
+		const isAllowedByRobots = (url: string) =>
+			this.isAllowedByRobots(url, config);
+		const recordSkippedUrl = this.recordSkippedUrl.bind(this);
+		const getRedirectChain = this.getRedirectChain.bind(this);
+		const classifyFailure = this.classifyFailure.bind(this);
+		const resolveCanonicalUrl = this.resolveCanonicalUrl.bind(this);
+		const registerAliases = this.registerAliases.bind(this);
+		const computeStructureFingerprint =
+			this.computeStructureFingerprint.bind(this);
+		const computeContentHash = this.computeContentHash.bind(this);
+		const sitemapUrls = this.sitemapUrls;
 		const crawlStartTime = this.crawlStartTime;
 		const constraintsImpl = new CrawlConstraintsImpl(config);
+		const trackPending = (requests: PendingRequest[]) =>
+			this.trackPending(requests, config);
+		const saveCheckpoint = () => this.saveCheckpoint();
+		const checkpointInterval = config.checkpoint?.intervalPages ?? 25;
+
+		// Created before resuming so a checkpoint can restore its counters
+		this.trapDetector = config.trapDetection?.enabled
+			? new TrapDetector(config.trapDetection)
+			: null;
+
+		// Continue from a checkpoint, or start fresh and checkpoint as we go
+		let resumeRequests: PendingRequest[] | null = null;
+		if (config.checkpoint?.enabled && config.checkpoint.directory) {
+			this.checkpoint = new CrawlCheckpoint(config.checkpoint.directory);
+			this.checkpointStartUrl = startUrl;
+
+			const state = config.checkpoint.resume
+				? await this.checkpoint.load()
+				: null;
+
+			if (state && state.startUrl === startUrl) {
+				this.restoreCheckpoint(state, config);
+				resumeRequests = state.pending;
+				console.log(
+					`   💾 Resuming from checkpoint: ${state.pages.length} pages, ${state.pending.length} pending`,
+				);
+
+				if (state.completed) {
+					console.log("   ✅ Checkpointed crawl was already complete");
+					this.resolveAliasLinks();
+					return this.pages;
+				}
+			} else {
+				if (config.checkpoint.resume) {
+					console.log("   💾 No usable checkpoint found, starting fresh");
+				}
+				await this.checkpoint.clear();
+			}
+		}
+
+		// Honor Crawl-delay declared for our user agent on the start origin
+		if (config.respectRobotsTxt) {
+			const robots = await this.getRobotsPolicy(startUrl, config);
+			const crawlDelay = robots.getCrawlDelay();
+			if (crawlDelay !== undefined) {
+				constraintsImpl.setCrawlDelay(crawlDelay);
+				console.log(`   🤖 robots.txt Crawl-delay: ${crawlDelay}s`);
+			}
+		}
+
+		// Incremental mode: revalidate pages known from the previous snapshot
+		const incrementalState =
+			config.incremental?.enabled && config.incremental.snapshotPath
+				? await IncrementalState.load(config.incremental.snapshotPath)
+				: null;
+		if (config.incremental?.enabled) {
+			console.log(
+				incrementalState
+					? "   ♻️  Incremental crawl against the previous snapshot"
+					: "   ♻️  No previous snapshot found, doing a full crawl",
+			);
+		}
+
+		// A resumed crawl already has its pending sitemap URLs
+		const sitemapSeeds =
+			config.sitemap?.enabled && !resumeRequests
+				? await this.discoverSitemapUrls(config)
+				: [];
 
 		let processedCount = 0;
 		let lastRequestTime = 0;
 
-		const crawler = new PlaywrightCrawler({
-			maxRequestsPerCrawl: maxPages,
-			maxConcurrency: constraints?.maxConcurrency ?? 3,
-			requestHandlerTimeoutSecs:
-				(constraints?.requestTimeoutMs ?? 30000) / 1000,
-			navigationTimeoutSecs: (constraints?.navigationTimeoutMs ?? 30000) / 1000,
+		const rateLimiter = constraints?.maxRequestsPerMinute
+			? new HostRateLimiter(
+					constraints.maxRequestsPerMinute,
+					constraints.maxConcurrency ?? 1,
+				)
+			: null;
+		const retryPolicy = new RetryPolicy(constraints?.retryStatusCodes ?? []);
+		const { loginManager, hooks: sessionHooks } =
+			this.createSessionHooks(config);
+		const screenshotCapturer =
+			config.screenshots?.enabled && config.screenshots.scope !== "key"
+				? new ScreenshotCapturer(config.screenshots)
+				: null;
+		const apiRecorder = config.apiRecording?.enabled
+			? new ApiRecorder(startUrl, config.apiRecording)
+			: null;
+		const interactiveDiscovery = config.interactiveDiscovery?.enabled
+			? new InteractiveDiscovery(config.interactiveDiscovery)
+			: null;
+		const liveDomLinkCollector = config.liveDomLinks?.enabled
+			? new LiveDomLinkCollector(config.liveDomLinks)
+			: null;
 
-			launchContext: {
-				launchOptions: {
-					headless: constraints?.headless ?? true,
-				},
-			},
+		const trapDetector = this.trapDetector;
 
-			preNavigationHooks: credentials
-				? [
-						async ({ page, request, log }) => {
-							// Handle login if credentials provided
-							if (credentials.loginUrl && request.url === startUrl) {
-								try {
-									log.info("Attempting login...");
-									await page.goto(credentials.loginUrl);
-
-									const usernameSelector =
-										credentials.usernameSelector ||
-										'input[name="username"], input[type="email"]';
-									const passwordSelector =
-										credentials.passwordSelector ||
-										'input[name="password"], input[type="password"]';
-									const submitSelector =
-										credentials.submitSelector || 'button[type="submit"]';
-
-									await page.fill(usernameSelector, credentials.username);
-									await page.fill(passwordSelector, credentials.password);
-									await page.click(submitSelector);
-									await page.waitForLoadState("networkidle");
-
-									log.info("Login successful");
-								} catch (error: any) {
-									log.error("Login failed:", error.message);
-								}
-							}
-						},
-					]
-				: [],
+		const sourceIndex = config.source
+			? await SourceIndex.open(config.source, startUrl, config.canonicalization)
+			: null;
+		if (sourceIndex) {
+			console.log(
+				`   📦 Offline source: ${sourceIndex.description} (${sourceIndex.size} pages)`,
+			);
+		}
 
-			async requestHandler({ request, page, enqueueLinks, log }) {
-				// Check time limit
-				if (constraintsImpl.hasExceededTimeLimit(crawlStartTime)) {
-					log.warning("⏱️  Max crawl duration exceeded, stopping...");
-					return;
-				}
+		const renderMode = config.renderMode ?? "browser";
+		if (!sourceIndex && renderMode !== "browser" && loginManager) {
+			console.warn(
+				"   ⚠️  Login scripts need the browser; static requests only carry preset cookies",
+			);
+		}
 
-				// Rate limiting
-				const delay = constraintsImpl.getRequestDelay();
-				if (delay > 0) {
-					const timeSinceLastRequest = Date.now() - lastRequestTime;
-					if (timeSinceLastRequest < delay) {
-						await new Promise((resolve) =>
-							setTimeout(resolve, delay - timeSinceLastRequest),
-						);
-					}
-				}
-				lastRequestTime = Date.now();
+		// Auto mode hands client-rendered pages to the browser and the browser's
+		// links back to plain HTTP
+		const staticBacklog: PendingRequest[] = [];
+		const browserBacklog: PendingRequest[] = [];
 
-				const url = request.url;
-				const normalizedUrl = UrlUtils.normalize(url);
-				const depth = (request.userData.depth as number) ?? 0;
+		// Best-first keeps discovered URLs out of the crawler's FIFO queue and
+		// feeds it a window of the highest-scoring ones at a time
+		const priorityFrontier =
+			config.crawlStrategy === "best-first"
+				? new PriorityFrontier(config.canonicalization)
+				: null;
+		const frontierWindow = constraints?.maxConcurrency ?? 3;
+		const frontierInFlight = new Set<string>();
 
-				// Check constraints
-				if (!constraintsImpl.shouldCrawlUrl(url)) {
-					log.info(`Skipping ${url} due to constraints`);
-					return;
-				}
+		/**
+		 * Take the next window of URLs from the best-first frontier
+		 */
+		const takeFromFrontier = (count: number): PendingRequest[] => {
+			const requests = priorityFrontier?.take(count) ?? [];
+			requests.forEach((request) =>
+				frontierInFlight.add(
+					UrlUtils.normalize(request.url, config.canonicalization),
+				),
+			);
+			return requests;
+		};
 
-				if (visitedUrls.has(normalizedUrl)) {
-					return;
-				}
+		/**
+		 * Shared page processing for browser and static fetches
+		 */
+		const processPage = async (fetched: FetchedPage): Promise<void> => {
+			const { request, log, page, status, headers, finalUrl } = fetched;
 
-				if (depth > maxDepth) {
-					return;
+			// Check time limit
+			if (constraintsImpl.hasExceededTimeLimit(crawlStartTime)) {
+				log.warning("⏱️  Max crawl duration exceeded, stopping...");
+				return;
+			}
+
+			// Rate limiting (there is no server to be polite to offline)
+			const delay = sourceIndex ? 0 : constraintsImpl.getRequestDelay();
+			if (delay > 0) {
+				const timeSinceLastRequest = Date.now() - lastRequestTime;
+				if (timeSinceLastRequest < delay) {
+					await new Promise((resolve) =>
+						setTimeout(resolve, delay - timeSinceLastRequest),
+					);
 				}
+			}
+			lastRequestTime = Date.now();
+
+			const url = request.url;
+			const normalizedUrl = UrlUtils.normalize(url, config.canonicalization);
+			const depth = (request.userData.depth as number) ?? 0;
+
+			// This request left the window: let the next best URL in
+			if (frontierInFlight.delete(normalizedUrl)) {
+				await fetched.enqueue(
+					takeFromFrontier(frontierWindow - frontierInFlight.size),
+				);
+			}
+
+			// Check constraints
+			if (!constraintsImpl.shouldCrawlUrl(url)) {
+				log.info(`Skipping ${url} due to constraints`);
+				return;
+			}
+
+			if (visitedUrls.has(normalizedUrl)) {
+				return;
+			}
+
+			if (depth > maxDepth) {
+				return;
+			}
 
+			// Throwing hands the request back to Crawlee for another attempt
+			request.userData.lastStatus = status;
+			if (retryPolicy.shouldRetryStatus(status)) {
+				throw new RetryableStatusError(
+					url,
+					status!,
+					RetryPolicy.parseRetryAfter(headers["retry-after"]),
+				);
+			}
+
+			// Bounced to the login page: the session expired mid-crawl
+			if (
+				page &&
+				loginManager?.isLoginRedirect(url, finalUrl) &&
+				(await loginManager.relogin(page.context()))
+			) {
+				throw new Error(`Session expired on ${url}, retrying after login`);
+			}
+
+			// 304 Not Modified: the previous snapshot still describes this page
+			const notModified =
+				status === 304
+					? incrementalState?.getPrevious(normalizedUrl)
+					: undefined;
+
+			const contentType = headers["content-type"];
+			if (!notModified && !constraintsImpl.isAllowedContentType(contentType)) {
+				log.info(`Skipping ${url} with content type ${contentType}`);
 				visitedUrls.add(normalizedUrl);
-				processedCount++;
+				recordSkippedUrl(normalizedUrl, SkipReason.CONTENT_TYPE);
+				return;
+			}
 
-				if (processedCount % 5 === 0) {
-					console.log(`   📄 Processed ${processedCount}/${maxPages} pages...`);
-				}
+			visitedUrls.add(normalizedUrl);
+			processedCount++;
 
-				try {
-					// Set custom user agent if provided
-					if (constraints?.userAgent) {
+			if (processedCount % 5 === 0) {
+				console.log(`   📄 Processed ${processedCount}/${maxPages} pages...`);
+			}
+
+			try {
+				if (page) {
+					// Set custom user agent if provided; a device profile brings its own
+					if (constraints?.userAgent && !config.device) {
 						await page.setExtraHTTPHeaders({
 							"User-Agent": constraints.userAgent,
 						});
 					}
 
 					// Set viewport if provided
-					if (constraints?.viewport) {
+					if (constraints?.viewport && !config.device) {
 						await page.setViewportSize(constraints.viewport);
 					}
+				}
 
-					const title = await Promise.race([
-						page.title(),
-						new Promise<string>((_, reject) =>
-							setTimeout(() => reject(new Error("Title timeout")), 5000),
-						),
-					]).catch(() => "Untitled");
+				const html = notModified ? "" : await fetched.readHtml();
+				const title = notModified
+					? notModified.title
+					: page
+						? await Promise.race([
+								page.title(),
+								new Promise<string>((_, reject) =>
+									setTimeout(() => reject(new Error("Title timeout")), 5000),
+								),
+							]).catch(() => "Untitled")
+						: cheerio.load(html)("title").first().text().trim();
 
-					const html = await Promise.race([
-						page.content(),
-						new Promise<string>((_, reject) =>
-							setTimeout(() => reject(new Error("Content timeout")), 10000),
+				// Merge redirect and rel="canonical" aliases into one page
+				const redirectChain = fetched.redirectChain;
+				const canonicalUrl = notModified
+					? notModified.url
+					: html
+						? resolveCanonicalUrl(html, finalUrl, config)
+						: UrlUtils.normalize(finalUrl, config.canonicalization);
+				const aliases = Array.from(
+					new Set(
+						[normalizedUrl, finalUrl, ...redirectChain].map((alias) =>
+							UrlUtils.normalize(alias, config.canonicalization),
 						),
-					]).catch(() => "");
+					),
+				).filter((alias) => alias !== canonicalUrl);
 
-					const links = html ? extractLinks(html, url, config) : [];
+				visitedUrls.add(canonicalUrl);
+				aliases.forEach((alias) => visitedUrls.add(alias));
 
-					const metadata: PageMetadata = {
-						url: normalizedUrl,
-						title,
-						depth,
-						outgoingLinks: links,
-						timestamp: Date.now(),
-					};
-					pages.set(normalizedUrl, metadata);
-
-					// Filter links based on constraints
-					const internalLinks = links
-						.filter((link: Link) =>
-							constraintsImpl.shouldFollowLink(link.href, url),
-						)
-						.map((link: Link) => link.href);
-
-					if (depth < maxDepth && internalLinks.length > 0) {
-						await enqueueLinks({
-							urls: internalLinks,
-							userData: { depth: depth + 1 },
-						});
+				if (pages.has(canonicalUrl)) {
+					registerAliases(canonicalUrl, aliases);
+					log.debug(`${url} is an alias of ${canonicalUrl}`);
+					return;
+				}
+
+				// Unchanged content keeps the previously extracted links and forms
+				const contentHash = notModified
+					? notModified.contentHash
+					: html
+						? computeContentHash(html)
+						: undefined;
+				const previous =
+					notModified ?? incrementalState?.getPrevious(canonicalUrl);
+				const unchanged =
+					previous !== undefined &&
+					contentHash !== undefined &&
+					previous.contentHash === contentHash;
+
+				const links = unchanged
+					? [...previous.outgoingLinks]
+					: html
+						? extractLinks(
+								html,
+								url,
+								config,
+								page ? await measureLinkProminence(page) : [],
+							)
+						: [];
+				if (page && liveDomLinkCollector && !unchanged) {
+					links.push(
+						...(await collectLiveDomLinks(
+							liveDomLinkCollector,
+							page,
+							url,
+							links,
+							config,
+						)),
+					);
+				}
+				if (page && interactiveDiscovery && !unchanged) {
+					links.push(
+						...(await discoverInteractiveLinks(
+							interactiveDiscovery,
+							page,
+							url,
+							links,
+							config,
+						)),
+					);
+				}
+
+				const forms = unchanged
+					? (previous.forms ?? [])
+					: html
+						? extractForms(html, url, config)
+						: [];
+				const pageStatus = notModified ? notModified.status : status;
+				// A 304 page never ran its scripts, so keep the calls recorded last time
+				const apiCalls = notModified
+					? notModified.apiCalls
+					: page && (await apiRecorder?.collect(page));
+				// A 304 response renders nothing, so only reuse earlier screenshots
+				const screenshots =
+					!page || !screenshotCapturer || notModified
+						? notModified?.screenshots
+						: unchanged && previous.screenshots
+							? previous.screenshots
+							: await screenshotCapturer.capture(page);
+
+				const metadata: PageMetadata = {
+					url: canonicalUrl,
+					title,
+					depth,
+					outgoingLinks: links,
+					timestamp: Date.now(),
+					inSitemap:
+						sitemapUrls.has(canonicalUrl) ||
+						aliases.some((alias) => sitemapUrls.has(alias)),
+					sitemapOnly: request.userData.fromSitemap === true,
+					state:
+						pageStatus !== undefined && pageStatus >= 400
+							? PageState.HTTP_ERROR
+							: PageState.OK,
+					status: pageStatus,
+					responseTimeMs: request.userData.responseTimeMs as number | undefined,
+					redirectChain,
+					finalUrl,
+					canonicalUrl,
+					aliases,
+					structureFingerprint: unchanged
+						? previous.structureFingerprint
+						: html && config.clustering?.useDomSimilarity
+							? computeStructureFingerprint(html)
+							: undefined,
+					forms: forms.length > 0 ? forms : undefined,
+					contentHash,
+					etag: headers["etag"] ?? notModified?.etag,
+					lastModified: headers["last-modified"] ?? notModified?.lastModified,
+					screenshots,
+					apiCalls: apiCalls && apiCalls.length > 0 ? apiCalls : undefined,
+					renderedWith: page ? "browser" : "static",
+				};
+				pages.set(canonicalUrl, metadata);
+				registerAliases(canonicalUrl, aliases);
+
+				if (pages.size % checkpointInterval === 0) {
+					await saveCheckpoint();
+				}
+
+				// Filter links based on constraints; GET forms are safe to follow too.
+				// Canonical hrefs dedup; the URL as found is what gets fetched
+				const candidateLinks = new Map<string, string>();
+				links
+					.filter((link: Link) =>
+						constraintsImpl.shouldFollowLink(link.fetchUrl ?? link.href, url),
+					)
+					.forEach((link: Link) => {
+						if (!candidateLinks.has(link.href)) {
+							candidateLinks.set(link.href, link.fetchUrl ?? link.href);
+						}
+					});
+				forms
+					.filter((form) => form.method === "GET")
+					.forEach((form) => {
+						if (!candidateLinks.has(form.action)) {
+							candidateLinks.set(form.action, form.fetchUrl ?? form.action);
+						}
+					});
+
+				// Drop links robots.txt disallows, remembering why
+				const candidates = Array.from(candidateLinks.entries());
+				const robotsDecisions = await Promise.all(
+					candidates.map(([, fetchUrl]) => isAllowedByRobots(fetchUrl)),
+				);
+				const internalLinks = candidates.filter(([href], idx) => {
+					if (robotsDecisions[idx]) return true;
+					recordSkippedUrl(href, SkipReason.ROBOTS, normalizedUrl);
+					return false;
+				});
+
+				// Calendars, facets and endless paths stop at their family's limit
+				const followedLinks = internalLinks.filter(([href]) => {
+					if (depth >= maxDepth || !trapDetector?.check(href)) return true;
+					recordSkippedUrl(href, SkipReason.TRAP, normalizedUrl);
+					return false;
+				});
+
+				if (depth < maxDepth && followedLinks.length > 0) {
+					const requests = followedLinks.map(([, fetchUrl]) => ({
+						url: fetchUrl,
+						depth: depth + 1,
+					}));
+					trackPending(requests);
+
+					if (priorityFrontier) {
+						const linksByUrl = new Map(
+							links.map(
+								(link: Link) => [link.fetchUrl ?? link.href, link] as const,
+							),
+						);
+						requests.forEach((request) =>
+							priorityFrontier.add(request, linksByUrl.get(request.url)),
+						);
+						await fetched.enqueue(
+							takeFromFrontier(frontierWindow - frontierInFlight.size),
+						);
+					} else {
+						await fetched.enqueue(requests);
 					}
-				} catch (error: any) {
-					log.error(`Error processing ${url}: ${error.message}`);
 				}
+			} catch (error: any) {
+				log.error(`Error processing ${url}: ${error.message}`);
+			}
+		};
+
+		/**
+		 * Keep robots.txt-disallowed URLs out of the crawl queues
+		 */
+		const filterByRobots = async (
+			requests: PendingRequest[],
+		): Promise<PendingRequest[]> => {
+			const decisions = await Promise.all(
+				requests.map((request) => isAllowedByRobots(request.url)),
+			);
+			return requests.filter((request, idx) => {
+				if (decisions[idx]) return true;
+				recordSkippedUrl(
+					UrlUtils.normalize(request.url, config.canonicalization),
+					SkipReason.ROBOTS,
+				);
+				return false;
+			});
+		};
+
+		// Last line of defence for requests that reached a crawler without the
+		// enqueue-time check: abort before the browser or HTTP client fetches them
+		const robotsGuard = async ({ request }: { request: Request }) => {
+			if (await isAllowedByRobots(request.url)) return;
+			request.userData.disallowedByRobots = true;
+			throw new NonRetryableError(`${request.url} is disallowed by robots.txt`);
+		};
+
+		// Retryable statuses back off outside the crawler: the request is
+		// dropped and added back once its delay has passed, so waiting never
+		// holds a concurrency slot. Other errors are retried straight away
+		const deferredRetries = new Set<Promise<void>>();
+		const errorHandler = (
+			{ request, log, crawler }: RetryContext,
+			error: Error,
+		) => {
+			if (!(error instanceof RetryableStatusError)) return;
+
+			const delay = retryPolicy.getBackoffDelay(
+				request.retryCount,
+				error.retryAfterMs,
+			);
+			request.noRetry = true;
+			request.userData.deferredRetry = true;
+
+			const retry = new Request({
+				url: request.url,
+				uniqueKey: `${request.uniqueKey}#retry-${request.retryCount + 1}`,
+				userData: {
+					depth: request.userData.depth,
+					fromSitemap: request.userData.fromSitemap,
+				},
+				keepUrlFragment: true,
+			});
+			retry.retryCount = request.retryCount + 1;
+
+			log.info(
+				`Retrying ${request.url} in ${(delay / 1000).toFixed(1)}s (attempt ${retry.retryCount + 1})`,
+			);
+			const pending: Promise<void> = new Promise((resolve) =>
+				setTimeout(resolve, delay),
+			)
+				.then(() => crawler.addRequests([retry]))
+				.then(
+					() => undefined,
+					// The crawler was stopped while the retry waited
+					() => undefined,
+				)
+				.finally(() => deferredRetries.delete(pending));
+			deferredRetries.add(pending);
+		};
+
+		// Keep a crawler running while any of its retries are still waiting
+		const autoscaledPoolFor = (requestQueue: RequestQueue) => ({
+			isFinishedFunction: async () =>
+				deferredRetries.size === 0 && (await requestQueue.isFinished()),
+		});
+
+		const failedRequestHandler = (
+			{ request, log }: HandlerContext,
+			error: Error,
+		) => {
+			const normalizedUrl = UrlUtils.normalize(
+				request.url,
+				config.canonicalization,
+			);
+			// Handed back to the queue by errorHandler after its backoff
+			if (request.userData.deferredRetry) return;
+
+			if (request.userData.disallowedByRobots) {
+				log.info(`Skipping ${request.url} disallowed by robots.txt`);
+				recordSkippedUrl(normalizedUrl, SkipReason.ROBOTS);
+				return;
+			}
+
+			log.error(`Failed to crawl: ${request.url}`);
+
+			// Keep the failure as a page so broken links can be reported
+			if (pages.has(normalizedUrl)) return;
+
+			const status = request.userData.lastStatus as number | undefined;
+			visitedUrls.add(normalizedUrl);
+			pages.set(normalizedUrl, {
+				url: normalizedUrl,
+				title: "",
+				depth: (request.userData.depth as number) ?? 0,
+				outgoingLinks: [],
+				timestamp: Date.now(),
+				inSitemap: sitemapUrls.has(normalizedUrl),
+				sitemapOnly: request.userData.fromSitemap === true,
+				state: classifyFailure(error, status),
+				status,
+				responseTimeMs: request.userData.responseTimeMs as number | undefined,
+				error: error.message,
+			});
+		};
+
+		// Request URLs drop in-page anchors already: any fragment left is a hash route
+		const enqueueWith =
+			(enqueueLinks: (options: EnqueueLinksOptions) => Promise<unknown>) =>
+			async (requests: PendingRequest[]) => {
+				// One call per depth: userData is shared by every URL of a call
+				const batches = new Map<string, PendingRequest[]>();
+				requests.forEach((request) => {
+					const key = `${request.depth}:${request.fromSitemap === true}`;
+					batches.set(key, [...(batches.get(key) ?? []), request]);
+				});
+
+				for (const batch of batches.values()) {
+					await enqueueLinks({
+						urls: batch.map((request) => request.url),
+						userData: {
+							depth: batch[0].depth,
+							fromSitemap: batch[0].fromSitemap,
+						},
+						// Requests keep the URL as found; the canonical form only dedups
+						transformRequestFunction: (options) => ({
+							...options,
+							uniqueKey: UrlUtils.normalize(
+								options.url,
+								config.canonicalization,
+							),
+							keepUrlFragment: true,
+						}),
+					});
+				}
+			};
+
+		const browserOptions: PlaywrightCrawlerOptions = {
+			maxConcurrency: constraints?.maxConcurrency ?? 3,
+			maxRequestRetries: constraints?.maxRetries ?? 2,
+			// Let every status reach requestHandler so RetryPolicy decides what is retried
+			// Each crawl keeps its own sessions so cookies never carry over between crawls
+			sessionPoolOptions: {
+				blockedStatusCodes: [],
+				persistStateKey: `SESSION_POOL_${crawlId}`,
+			},
+			// Interactive discovery clicks through the page on top of the normal budget
+			requestHandlerTimeoutSecs:
+				((constraints?.requestTimeoutMs ?? 30000) +
+					(interactiveDiscovery
+						? (config.interactiveDiscovery?.maxDurationMs ?? 15000) + 20000
+						: 0)) /
+				1000,
+			navigationTimeoutSecs: (constraints?.navigationTimeoutMs ?? 30000) / 1000,
+
+			launchContext: this.getLaunchContext(config),
+
+			preNavigationHooks: [
+				robotsGuard,
+				async ({ request }) => {
+					// Per-host token bucket for maxRequestsPerMinute
+					if (rateLimiter) {
+						await rateLimiter.acquire(request.url);
+					}
+				},
+				...sessionHooks,
+				async ({ page }) => {
+					apiRecorder?.attach(page);
+					await liveDomLinkCollector?.attach(page);
+				},
+				async ({ page, request }) => {
+					// Conditional request for the document only, not its subresources
+					const validators = incrementalState?.getConditionalHeaders(
+						UrlUtils.normalize(request.url, config.canonicalization),
+					);
+					if (!validators) return;
+
+					let revalidated = false;
+					await page.route("**/*", (route) => {
+						if (revalidated || !route.request().isNavigationRequest()) {
+							return route.continue();
+						}
+						revalidated = true;
+						return route.continue({
+							headers: { ...route.request().headers(), ...validators },
+						});
+					});
+				},
+				async ({ request }) => {
+					request.userData.navigationStartedAt = Date.now();
+				},
+			],
+
+			postNavigationHooks: [
+				async ({ request }) => {
+					request.userData.responseTimeMs =
+						Date.now() - (request.userData.navigationStartedAt as number);
+				},
+			],
+
+			async requestHandler({ request, page, response, enqueueLinks, log }) {
+				await processPage({
+					request,
+					log,
+					page,
+					status: response?.status(),
+					headers: response?.headers() ?? {},
+					finalUrl: page.url(),
+					redirectChain: getRedirectChain(response),
+					readHtml: () =>
+						Promise.race([
+							page.content(),
+							new Promise<string>((_, reject) =>
+								setTimeout(() => reject(new Error("Content timeout")), 10000),
+							),
+						]).catch(() => ""),
+					// In auto mode the browser only renders; its links go back to HTTP
+					enqueue:
+						renderMode === "auto"
+							? async (requests) => {
+									staticBacklog.push(...requests);
+								}
+							: enqueueWith(enqueueLinks),
+				});
 			},
 
-			failedRequestHandler({ request, log }) {
-				log.error(`Failed to crawl: ${request.url}`);
+			errorHandler,
+			failedRequestHandler,
+		};
+
+		const staticOptions: CheerioCrawlerOptions = {
+			maxConcurrency: constraints?.maxConcurrency ?? 3,
+			maxRequestRetries: constraints?.maxRetries ?? 2,
+			sessionPoolOptions: {
+				blockedStatusCodes: [],
+				persistStateKey: `SESSION_POOL_${crawlId}-static`,
 			},
-		});
+			requestHandlerTimeoutSecs:
+				(constraints?.requestTimeoutMs ?? 30000) / 1000,
+			navigationTimeoutSecs: (constraints?.navigationTimeoutMs ?? 30000) / 1000,
+			// Content types and 5xx are judged by our own checks, as in the browser
+			additionalMimeTypes: ["*/*"],
+			ignoreHttpErrorStatusCodes: Array.from(
+				{ length: 100 },
+				(_, index) => 500 + index,
+			),
 
-		try {
-			await crawler.run([
-				{
-					url: startUrl,
-					userData: { depth: 0 },
+			preNavigationHooks: [
+				robotsGuard,
+				async ({ request }) => {
+					if (rateLimiter) {
+						await rateLimiter.acquire(request.url);
+					}
+				},
+				async ({ request }, gotOptions) => {
+					const validators = incrementalState?.getConditionalHeaders(
+						UrlUtils.normalize(request.url, config.canonicalization),
+					);
+					const cookieHeader = this.getCookieHeader(request.url, config);
+					gotOptions.headers = {
+						...gotOptions.headers,
+						"user-agent": this.getRequestUserAgent(config),
+						...(cookieHeader ? { cookie: cookieHeader } : {}),
+						...validators,
+					};
+					request.userData.navigationStartedAt = Date.now();
 				},
-			]);
+			],
+
+			postNavigationHooks: [
+				async ({ request }) => {
+					request.userData.responseTimeMs =
+						Date.now() - (request.userData.navigationStartedAt as number);
+				},
+			],
+
+			async requestHandler({ request, response, body, enqueueLinks, log }) {
+				const html = body.toString();
+
+				// Client-rendered shell: let the browser have a go at it
+				if (
+					renderMode === "auto" &&
+					!visitedUrls.has(
+						UrlUtils.normalize(request.url, config.canonicalization),
+					) &&
+					(response.statusCode ?? 0) < 300 &&
+					RenderSignals.looksClientRendered(html)
+				) {
+					log.debug(`${request.url} looks client-rendered, using the browser`);
+					browserBacklog.push({
+						url: request.url,
+						depth: (request.userData.depth as number) ?? 0,
+						fromSitemap: request.userData.fromSitemap as boolean | undefined,
+					});
+					return;
+				}
+
+				await processPage({
+					request,
+					log,
+					status: response.statusCode,
+					headers: Object.fromEntries(
+						Object.entries(response.headers).map(([name, value]) => [
+							name,
+							Array.isArray(value) ? value.join(", ") : value,
+						]),
+					),
+					finalUrl: request.loadedUrl ?? request.url,
+					// got lists the redirect targets; the chain is every URL before the last
+					redirectChain:
+						response.redirectUrls?.length > 0
+							? [
+									request.url,
+									...response.redirectUrls
+										.slice(0, -1)
+										.map((redirect: URL) => redirect.href),
+								]
+							: [],
+					readHtml: async () => html,
+					enqueue: enqueueWith(enqueueLinks),
+				});
+			},
+
+			errorHandler,
+			failedRequestHandler,
+		};
+
+		/**
+		 * Walk an offline source breadth-first, as the crawlers would walk the site
+		 */
+		const runOffline = async (
+			index: SourceIndex,
+			requests: PendingRequest[],
+		): Promise<void> => {
+			const queue = [...requests];
+			const log = crawleeLog.child({ prefix: "OfflineSource" });
+
+			while (
+				queue.length > 0 &&
+				pages.size < maxPages &&
+				!this.stopRequested &&
+				!constraintsImpl.hasExceededTimeLimit(crawlStartTime)
+			) {
+				const next = queue.shift()!;
+				const request = new Request({
+					url: next.url,
+					userData: { depth: next.depth, fromSitemap: next.fromSitemap },
+					keepUrlFragment: true,
+				});
+
+				const found = index.lookup(next.url);
+				if (!found) {
+					const normalizedUrl = UrlUtils.normalize(
+						next.url,
+						config.canonicalization,
+					);
+					frontierInFlight.delete(normalizedUrl);
+					recordSkippedUrl(normalizedUrl, SkipReason.NOT_IN_SOURCE);
+					continue;
+				}
+
+				try {
+					await processPage({
+						request,
+						log,
+						status: found.document.status,
+						headers: found.document.headers,
+						finalUrl: found.document.url,
+						redirectChain: found.redirectChain,
+						readHtml: async () => found.document.html,
+						enqueue: async (requests) => {
+							queue.push(...requests);
+						},
+					});
+				} catch (error: any) {
+					failedRequestHandler({ request, log }, error);
+				}
+			}
+		};
+
+		/**
+		 * Crawl requests with the configured render mode until nothing is left
+		 */
+		const runRequests = async (
+			requests: PendingRequest[],
+			phase: string,
+		): Promise<void> => {
+			// Start, sitemap and resumed URLs never passed the link filter
+			requests = await filterByRobots(requests);
+
+			// Best-first: everything goes through the frontier, a window at a time
+			if (priorityFrontier) {
+				requests.forEach((request) => priorityFrontier.add(request));
+				requests = takeFromFrontier(frontierWindow);
+			}
+
+			if (sourceIndex) {
+				while (requests.length > 0 && maxPages > pages.size) {
+					await runOffline(sourceIndex, requests);
+					frontierInFlight.clear();
+					requests = takeFromFrontier(frontierWindow);
+				}
+				return;
+			}
+
+			let staticRequests = renderMode === "browser" ? [] : requests;
+			let browserRequests = renderMode === "browser" ? requests : [];
+
+			while (
+				(staticRequests.length > 0 || browserRequests.length > 0) &&
+				!this.stopRequested &&
+				!constraintsImpl.hasExceededTimeLimit(crawlStartTime)
+			) {
+				if (staticRequests.length > 0 && maxPages > pages.size) {
+					const requestQueue = await this.openRequestQueue(`${phase}-static`);
+					await this.runCrawler(
+						new CheerioCrawler({
+							...staticOptions,
+							requestQueue,
+							autoscaledPoolOptions: autoscaledPoolFor(requestQueue),
+							maxRequestsPerCrawl: maxPages - pages.size,
+						}),
+						requestQueue,
+						staticRequests,
+						config,
+					);
+				}
+
+				if (browserRequests.length > 0 && maxPages > pages.size) {
+					const requestQueue = await this.openRequestQueue(phase);
+					await this.runCrawler(
+						new PlaywrightCrawler({
+							...browserOptions,
+							requestQueue,
+							autoscaledPoolOptions: autoscaledPoolFor(requestQueue),
+							maxRequestsPerCrawl: maxPages - pages.size,
+						}),
+						requestQueue,
+						browserRequests,
+						config,
+					);
+				}
+
+				staticRequests = staticBacklog.splice(0);
+				browserRequests = browserBacklog.splice(0);
+				if (maxPages <= pages.size) break;
+
+				// Skipped and failed pages can leave the window empty before the
+				// frontier is; nothing is in flight once both crawlers have stopped
+				if (
+					priorityFrontier &&
+					staticRequests.length === 0 &&
+					browserRequests.length === 0
+				) {
+					frontierInFlight.clear();
+					const next = takeFromFrontier(frontierWindow);
+					if (renderMode === "browser") {
+						browserRequests = next;
+					} else {
+						staticRequests = next;
+					}
+				}
+			}
+		};
+
+		try {
+			// Sitemap URLs seed the crawl next to the start page and share its budget
+			const seedRequests = sitemapSeeds
+				.filter(
+					(url) =>
+						UrlUtils.normalize(url, config.canonicalization) !==
+						normalizedStartUrl,
+				)
+				.map((url) => ({ url, depth: 1, fromSitemap: true }));
+			if (seedRequests.length > 0 && !resumeRequests) {
+				console.log(
+					`   🗺️  Seeding the crawl with ${seedRequests.length} sitemap URLs`,
+				);
+			}
+
+			const initialRequests = resumeRequests ?? [
+				{ url: startUrl, depth: 0 },
+				...seedRequests,
+			];
+			trackPending(initialRequests);
+
+			if (!sourceIndex && renderMode !== "browser") {
+				console.log(`   ⚡ Render mode: ${renderMode}`);
+			}
+			if (priorityFrontier) {
+				console.log("   🎯 Crawl strategy: best-first");
+			}
+
+			await runRequests(initialRequests, "links");
 		} catch (error: any) {
+			// A failed login stops the crawl: pages crawled without the session
+			// would describe another site
+			if (error instanceof CriticalError) {
+				this.activeCrawler = null;
+				throw error;
+			}
 			console.error("Crawler error:", error.message);
 		}
+		this.activeCrawler = null;
+
+		// An interrupted crawl keeps its pending queue for --resume
+		await this.saveCheckpoint(!this.stopRequested);
+
+		this.resolveAliasLinks();
+
+		if (config.incremental?.enabled && config.incremental.snapshotPath) {
+			await this.finishIncrementalCrawl(
+				incrementalState,
+				config.incremental.snapshotPath,
+			);
+		}
 
 		console.log(`   ✅ Crawl completed: ${this.pages.size} pages collected`);
+		if (this.skippedUrls.size > 0) {
+			console.log(
+				`   🚫 Skipped by crawl policy: ${this.skippedUrls.size} URLs`,
+			);
+		}
+		const trapFamilies = this.getTrapFamilies();
+		if (trapFamilies.length > 0) {
+			console.log(
+				`   🪤 Suppressed ${trapFamilies.reduce((sum, family) => sum + family.suppressedCount, 0)} trap URLs in ${trapFamilies.length} families`,
+			);
+		}
 		return this.pages;
 	}
 }
@@ -0,0 +1,179 @@
+import { PendingRequest } from "./CrawlCheckpoint";
+import { Link, LinkPosition } from "./types";
+import { ImportanceSignals } from "../utils/ImportanceSignals";
+import { UrlUtils, UrlCanonicalizationRules } from "../utils/UrlUtils";
+
+interface HeapItem {
+	key: string;
+	score: number;
+	sequence: number;
+}
+
+interface FrontierEntry {
+	request: PendingRequest;
+	linkScore: number;
+	inlinks: number;
+	score: number;
+}
+
+/**
+ * Links in the main content lead somewhere on purpose; chrome links repeat
+ * on every page
+ */
+const POSITION_WEIGHTS: Record<LinkPosition, number> = {
+	[LinkPosition.CTA]: 30,
+	[LinkPosition.CONTENT]: 20,
+	[LinkPosition.IN_CONTENT_LIST]: 20,
+	[LinkPosition.TABS]: 15,
+	[LinkPosition.HEADER]: 10,
+	[LinkPosition.NAVIGATION]: 10,
+	[LinkPosition.SIDEBAR]: 5,
+	[LinkPosition.PAGINATION]: 5,
+	[LinkPosition.BREADCRUMB]: 0,
+	[LinkPosition.FOOTER]: 0,
+};
+
+/**
+ * Discovered-but-unvisited URLs ordered by predicted page importance
+ *
+ * Scores use the same URL and text signals the flow analyzer applies to
+ * crawled pages, plus the position of the best link seen so far, closeness
+ * to the start page and how many pages link to the URL. Scores change as
+ * more links are found, so the heap holds stale entries that are skipped
+ * when popped.
+ */
+export class PriorityFrontier {
+	private entries = new Map<string, FrontierEntry>();
+	private heap: HeapItem[] = [];
+	private taken = new Set<string>();
+	private sequence = 0;
+
+	constructor(private readonly rules: UrlCanonicalizationRules = {}) {}
+
+	/**
+	 * URLs waiting to be crawled
+	 */
+	get size(): number {
+		return this.entries.size;
+	}
+
+	/**
+	 * Add a URL, or raise the score of one already waiting
+	 */
+	add(request: PendingRequest, link?: Link): void {
+		const key = UrlUtils.normalize(request.url, this.rules);
+		if (this.taken.has(key)) return;
+
+		const linkScore = link ? this.scoreLink(link) : 0;
+		const existing = this.entries.get(key);
+		const entry: FrontierEntry = existing
+			? {
+					request:
+						request.depth < existing.request.depth ? request : existing.request,
+					linkScore: Math.max(existing.linkScore, linkScore),
+					inlinks: existing.inlinks + 1,
+					score: 0,
+				}
+			: { request, linkScore, inlinks: 1, score: 0 };
+
+		entry.score = this.score(entry);
+		this.entries.set(key, entry);
+		this.push({ key, score: entry.score, sequence: this.sequence++ });
+	}
+
+	/**
+	 * Remove and return the most promising URLs
+	 */
+	take(count: number): PendingRequest[] {
+		const requests: PendingRequest[] = [];
+
+		while (requests.length < count && this.heap.length > 0) {
+			const { key, score } = this.pop();
+			const entry = this.entries.get(key);
+			if (!entry || entry.score !== score) continue;
+
+			this.entries.delete(key);
+			this.taken.add(key);
+			requests.push(entry.request);
+		}
+
+		return requests;
+	}
+
+	/**
+	 * Predicted importance of a page that has not been fetched yet
+	 */
+	private score(entry: FrontierEntry): number {
+		return (
+			ImportanceSignals.scoreUrl(entry.request.url) +
+			entry.linkScore +
+			(6 - Math.min(entry.request.depth, 6)) * 10 +
+			(entry.inlinks - 1) * 15
+		);
+	}
+
+	/**
+	 * Anchor text keywords plus where on the page the link sits
+	 */
+	private scoreLink(link: Link): number {
+		return (
+			ImportanceSignals.scoreText(link.text) +
+			(POSITION_WEIGHTS[link.position] ?? 0)
+		);
+	}
+
+	/**
+	 * Higher score first; equal scores keep discovery order
+	 */
+	private outranks(a: HeapItem, b: HeapItem): boolean {
+		return (
+			a.score > b.score || (a.score === b.score && a.sequence < b.sequence)
+		);
+	}
+
+	/**
+	 * Max-heap insert
+	 */
+	private push(item: HeapItem): void {
+		const heap = this.heap;
+		heap.push(item);
+
+		let index = heap.length - 1;
+		while (index > 0) {
+			const parent = (index - 1) >> 1;
+			if (!this.outranks(heap[index], heap[parent])) break;
+			[heap[parent], heap[index]] = [heap[index], heap[parent]];
+			index = parent;
+		}
+	}
+
+	/**
+	 * Max-heap removal of the top item
+	 */
+	private pop(): HeapItem {
+		const heap = this.heap;
+		const top = heap[0];
+		const last = heap.pop()!;
+
+		if (heap.length > 0) {
+			heap[0] = last;
+			let index = 0;
+			while (true) {
+				const left = index * 2 + 1;
+				const right = left + 1;
+				let largest = index;
+				if (left < heap.length && this.outranks(heap[left], heap[largest])) {
+					largest = left;
+				}
+				if (right < heap.length && this.outranks(heap[right], heap[largest])) {
+					largest = right;
+				}
+				if (largest === index) break;
+				[heap[largest], heap[index]] = [heap[index], heap[largest]];
+				index = largest;
+			}
+		}
+
+		return top;
+	}
+}
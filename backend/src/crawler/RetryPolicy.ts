@@ -0,0 +1,64 @@
+/**
+ * Thrown for a response whose status the retry policy retries
+ */
+export class RetryableStatusError extends Error {
+	constructor(
+		url: string,
+		readonly status: number,
+		readonly retryAfterMs?: number,
+	) {
+		super(`Retryable HTTP status ${status} for ${url}`);
+		this.name = "RetryableStatusError";
+	}
+}
+
+/**
+ * Decides which HTTP responses are retried and how long to back off
+ */
+export class RetryPolicy {
+	private readonly BASE_DELAY_MS = 1000;
+	private readonly MAX_DELAY_MS = 30000;
+
+	constructor(private readonly retryStatusCodes: number[]) {}
+
+	/**
+	 * Check whether a response status should trigger a retry
+	 */
+	shouldRetryStatus(status: number | undefined): boolean {
+		return status !== undefined && this.retryStatusCodes.includes(status);
+	}
+
+	/**
+	 * Delay before the next attempt: Retry-After when the server sent one,
+	 * otherwise exponential backoff with jitter
+	 */
+	getBackoffDelay(retryCount: number, retryAfterMs?: number): number {
+		if (retryAfterMs !== undefined) {
+			return Math.min(retryAfterMs, this.MAX_DELAY_MS);
+		}
+
+		const exponential = this.BASE_DELAY_MS * Math.pow(2, retryCount);
+		const jitter = Math.random() * this.BASE_DELAY_MS;
+		return Math.min(exponential + jitter, this.MAX_DELAY_MS);
+	}
+
+	/**
+	 * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+	 */
+	static parseRetryAfter(value: string | undefined): number | undefined {
+		const trimmed = value?.trim();
+		if (!trimmed) return undefined;
+
+		const seconds = Number(trimmed);
+		if (!isNaN(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+
+		const date = Date.parse(trimmed);
+		if (!isNaN(date)) {
+			return Math.max(0, date - Date.now());
+		}
+
+		return undefined;
+	}
+}
@@ -0,0 +1,239 @@
+/**
+ * A single Allow/Disallow rule from a robots.txt group
+ */
+interface RobotsRule {
+	pattern: string;
+	allow: boolean;
+	regex: RegExp;
+}
+
+/**
+ * A user-agent group: one or more User-agent lines followed by rules
+ */
+interface RobotsGroup {
+	userAgents: string[];
+	rules: RobotsRule[];
+	crawlDelay?: number;
+}
+
+/**
+ * Parsed robots.txt policy for a single origin, resolved for our user agent
+ *
+ * Follows RFC 9309: the most specific matching group wins, the longest
+ * matching rule decides, and Allow wins ties. Supports `*` wildcards and
+ * `$` end anchors, plus the non-standard Crawl-delay and Sitemap lines.
+ */
+export class RobotsTxt {
+	private constructor(
+		private readonly rules: RobotsRule[],
+		private readonly crawlDelay: number | undefined,
+		private readonly sitemaps: string[],
+	) {}
+
+	/**
+	 * Policy that allows everything (missing or 4xx robots.txt)
+	 */
+	static allowAll(): RobotsTxt {
+		return new RobotsTxt([], undefined, []);
+	}
+
+	/**
+	 * Policy that disallows everything (unreachable robots.txt)
+	 */
+	static disallowAll(): RobotsTxt {
+		return new RobotsTxt([RobotsTxt.createRule("/", false)], undefined, []);
+	}
+
+	/**
+	 * Fetch and parse robots.txt for the origin of the given URL
+	 */
+	static async fetch(
+		url: string,
+		userAgent: string,
+		timeoutMs: number = 10000,
+	): Promise<RobotsTxt> {
+		let robotsUrl: string;
+		try {
+			robotsUrl = new URL("/robots.txt", url).href;
+		} catch {
+			return RobotsTxt.allowAll();
+		}
+
+		try {
+			const response = await fetch(robotsUrl, {
+				headers: { "User-Agent": userAgent },
+				redirect: "follow",
+				signal: AbortSignal.timeout(timeoutMs),
+			});
+
+			if (response.ok) {
+				return RobotsTxt.parse(await response.text(), userAgent);
+			}
+
+			// 4xx means "no robots.txt": everything is allowed
+			if (response.status >= 400 && response.status < 500) {
+				return RobotsTxt.allowAll();
+			}
+
+			console.warn(
+				`   ⚠️  robots.txt at ${robotsUrl} returned ${response.status}, assuming full disallow`,
+			);
+			return RobotsTxt.disallowAll();
+		} catch (error: any) {
+			console.warn(
+				`   ⚠️  Could not fetch ${robotsUrl} (${error.message}), assuming full disallow`,
+			);
+			return RobotsTxt.disallowAll();
+		}
+	}
+
+	/**
+	 * Parse robots.txt content and select the groups that apply to our user agent
+	 */
+	static parse(content: string, userAgent: string): RobotsTxt {
+		const groups: RobotsGroup[] = [];
+		const sitemaps: string[] = [];
+		let currentGroup: RobotsGroup | null = null;
+		let lastLineWasUserAgent = false;
+
+		content.split(/\r\n|\r|\n/).forEach((rawLine) => {
+			const line = rawLine.replace(/#.*$/, "").trim();
+			if (!line) return;
+
+			const separatorIndex = line.indexOf(":");
+			if (separatorIndex === -1) return;
+
+			const key = line.substring(0, separatorIndex).trim().toLowerCase();
+			const value = line.substring(separatorIndex + 1).trim();
+
+			switch (key) {
+				case "user-agent":
+					if (!currentGroup || !lastLineWasUserAgent) {
+						currentGroup = { userAgents: [], rules: [] };
+						groups.push(currentGroup);
+					}
+					currentGroup.userAgents.push(value.toLowerCase());
+					lastLineWasUserAgent = true;
+					return;
+
+				case "allow":
+				case "disallow":
+					// Empty Disallow means "allow everything" and adds no rule
+					if (currentGroup && value) {
+						currentGroup.rules.push(
+							RobotsTxt.createRule(value, key === "allow"),
+						);
+					}
+					break;
+
+				case "crawl-delay": {
+					const delay = parseFloat(value);
+					if (currentGroup && !isNaN(delay) && delay >= 0) {
+						currentGroup.crawlDelay = delay;
+					}
+					break;
+				}
+
+				case "sitemap":
+					if (value) sitemaps.push(value);
+					break;
+			}
+
+			lastLineWasUserAgent = false;
+		});
+
+		const matchingGroups = RobotsTxt.selectGroups(groups, userAgent);
+		const rules = matchingGroups.flatMap((group) => group.rules);
+		const crawlDelays = matchingGroups
+			.map((group) => group.crawlDelay)
+			.filter((delay): delay is number => delay !== undefined);
+
+		return new RobotsTxt(
+			rules,
+			crawlDelays.length > 0 ? Math.max(...crawlDelays) : undefined,
+			sitemaps,
+		);
+	}
+
+	/**
+	 * Pick the group(s) naming our product token, falling back to `*`
+	 *
+	 * RFC 9309 matches the product token as a whole, case-insensitively:
+	 * a "User-agent: G" group does not apply to "Googlebot".
+	 */
+	private static selectGroups(
+		groups: RobotsGroup[],
+		userAgent: string,
+	): RobotsGroup[] {
+		const productToken = userAgent.split("/")[0].trim().toLowerCase();
+		const named = groups.filter((group) =>
+			group.userAgents.includes(productToken),
+		);
+
+		return named.length > 0
+			? named
+			: groups.filter((group) => group.userAgents.includes("*"));
+	}
+
+	/**
+	 * Compile a robots.txt path pattern into a rule
+	 */
+	private static createRule(pattern: string, allow: boolean): RobotsRule {
+		const anchored = pattern.endsWith("$");
+		const body = anchored ? pattern.slice(0, -1) : pattern;
+		const source = body
+			.split("*")
+			.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+			.join(".*");
+
+		return {
+			pattern,
+			allow,
+			regex: new RegExp(`^${source}${anchored ? "$" : ""}`),
+		};
+	}
+
+	/**
+	 * Check whether a URL may be crawled under this policy
+	 */
+	isAllowed(url: string): boolean {
+		let path: string;
+		try {
+			const urlObj = new URL(url);
+			path = urlObj.pathname + urlObj.search;
+		} catch {
+			return false;
+		}
+
+		if (path === "/robots.txt") return true;
+
+		let decision: RobotsRule | null = null;
+		for (const rule of this.rules) {
+			if (!rule.regex.test(path)) continue;
+
+			if (
+				!decision ||
+				rule.pattern.length > decision.pattern.length ||
+				(rule.pattern.length === decision.pattern.length && rule.allow)
+			) {
+				decision = rule;
+			}
+		}
+
+		return decision ? decision.allow : true;
+	}
+
+	/**
+	 * Crawl-delay in seconds for our user agent, if declared
+	 */
+	getCrawlDelay(): number | undefined {
+		return this.crawlDelay;
+	}
+
+	/**
+	 * Sitemap URLs advertised by the robots.txt file
+	 */
+	getSitemaps(): string[] {
+		return [...this.sitemaps];
+	}
+}
@@ -0,0 +1,107 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { Page } from "playwright";
+import { PageScreenshots } from "./types";
+
+/**
+ * Options for per-page screenshots
+ */
+export interface ScreenshotOptions {
+	fullPage?: boolean;
+	viewport?: boolean;
+	scope?: "all" | "key";
+	directory?: string;
+	thumbnailWidth?: number;
+}
+
+/**
+ * Captures viewport / full-page screenshots and a small thumbnail per page
+ *
+ * Files are named after the hash of their content, so identical renders
+ * (the same page reached twice, an unchanged page on a recrawl) are stored
+ * once and file names stay stable between runs.
+ */
+export class ScreenshotCapturer {
+	private readonly fullPage: boolean;
+	private readonly viewport: boolean;
+	private readonly directory: string;
+	private readonly thumbnailWidth: number;
+
+	constructor(options: ScreenshotOptions = {}) {
+		this.fullPage = options.fullPage ?? true;
+		this.viewport = options.viewport ?? true;
+		this.directory = options.directory ?? "screenshots";
+		this.thumbnailWidth = options.thumbnailWidth ?? 320;
+	}
+
+	/**
+	 * Screenshot the loaded page; failures are logged and yield no files
+	 */
+	async capture(page: Page): Promise<PageScreenshots> {
+		const screenshots: PageScreenshots = {};
+
+		try {
+			const viewportImage = await page.screenshot({ type: "png" });
+			if (this.viewport) {
+				screenshots.viewport = await this.store(viewportImage, "png");
+			}
+
+			if (this.fullPage) {
+				const fullPageImage = await page.screenshot({
+					type: "png",
+					fullPage: true,
+				});
+				screenshots.fullPage = await this.store(fullPageImage, "png");
+			}
+
+			screenshots.thumbnail = await this.store(
+				await this.renderThumbnail(page, viewportImage),
+				"jpg",
+			);
+		} catch (error: any) {
+			console.warn(
+				`   ⚠️  Screenshot failed for ${page.url()}: ${error.message}`,
+			);
+		}
+
+		return screenshots;
+	}
+
+	/**
+	 * Scale the viewport image down in a scratch tab of the same context
+	 */
+	private async renderThumbnail(page: Page, image: Buffer): Promise<Buffer> {
+		const size = page.viewportSize() ?? { width: 1280, height: 720 };
+		const height = Math.round((this.thumbnailWidth * size.height) / size.width);
+		const thumbnailPage = await page.context().newPage();
+
+		try {
+			await thumbnailPage.setViewportSize({
+				width: this.thumbnailWidth,
+				height,
+			});
+			await thumbnailPage.setContent(
+				`<body style="margin:0"><img style="display:block;width:100%" src="data:image/png;base64,${image.toString("base64")}"></body>`,
+			);
+			return await thumbnailPage.screenshot({ type: "jpeg", quality: 70 });
+		} finally {
+			await thumbnailPage.close().catch(() => undefined);
+		}
+	}
+
+	/**
+	 * Write an image under its content hash and return its relative path
+	 */
+	private async store(image: Buffer, extension: string): Promise<string> {
+		const hash = createHash("sha256").update(image).digest("hex").slice(0, 16);
+		const filePath = path.join(this.directory, `${hash}.${extension}`);
+
+		await fs.mkdir(this.directory, { recursive: true });
+		await fs.writeFile(filePath, image, { flag: "wx" }).catch((error) => {
+			if (error.code !== "EEXIST") throw error;
+		});
+
+		return filePath;
+	}
+}
@@ -0,0 +1,137 @@
+import { gunzipSync } from "zlib";
+
+/**
+ * Result of parsing a single sitemap document
+ */
+export interface ParsedSitemap {
+	pageUrls: string[];
+	childSitemaps: string[];
+}
+
+/**
+ * Discovers and parses sitemap.xml files (urlsets, sitemap indexes, gzip)
+ */
+export class SitemapLoader {
+	private readonly MAX_SITEMAP_FILES = 50;
+
+	constructor(
+		private userAgent: string,
+		private timeoutMs: number = 10000,
+	) {}
+
+	/**
+	 * Collect page URLs from the given sitemaps, following sitemap indexes
+	 */
+	async load(sitemapUrls: string[], maxUrls: number): Promise<string[]> {
+		const pageUrls = new Set<string>();
+		const queue = [...new Set(sitemapUrls)];
+		const seenSitemaps = new Set<string>();
+
+		while (
+			queue.length > 0 &&
+			seenSitemaps.size < this.MAX_SITEMAP_FILES &&
+			pageUrls.size < maxUrls
+		) {
+			const sitemapUrl = queue.shift()!;
+			if (seenSitemaps.has(sitemapUrl)) continue;
+			seenSitemaps.add(sitemapUrl);
+
+			const content = await this.fetchSitemap(sitemapUrl);
+			if (!content) continue;
+
+			const parsed = SitemapLoader.parse(content);
+			parsed.childSitemaps.forEach((child) => {
+				if (!seenSitemaps.has(child)) queue.push(child);
+			});
+
+			for (const url of parsed.pageUrls) {
+				if (pageUrls.size >= maxUrls) break;
+				pageUrls.add(url);
+			}
+		}
+
+		console.log(
+			`   🗺️  Sitemaps read: ${seenSitemaps.size}, URLs found: ${pageUrls.size}`,
+		);
+
+		return Array.from(pageUrls);
+	}
+
+	/**
+	 * Fetch a sitemap, transparently decompressing gzip payloads
+	 */
+	private async fetchSitemap(url: string): Promise<string | null> {
+		try {
+			const response = await fetch(url, {
+				headers: { "User-Agent": this.userAgent },
+				redirect: "follow",
+				signal: AbortSignal.timeout(this.timeoutMs),
+			});
+
+			if (!response.ok) {
+				console.warn(`   ⚠️  Sitemap ${url} returned ${response.status}`);
+				return null;
+			}
+
+			const body = Buffer.from(await response.arrayBuffer());
+
+			// .xml.gz files are usually served raw rather than content-encoded
+			if (body.length > 2 && body[0] === 0x1f && body[1] === 0x8b) {
+				return gunzipSync(body).toString("utf-8");
+			}
+
+			return body.toString("utf-8");
+		} catch (error: any) {
+			console.warn(`   ⚠️  Could not read sitemap ${url}: ${error.message}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Parse a sitemap document into page URLs or child sitemap URLs
+	 *
+	 * Only the <loc> of each <url> or <sitemap> entry counts: extension tags
+	 * such as <image:loc> and <video:content_loc> point at media, not pages
+	 */
+	static parse(xml: string): ParsedSitemap {
+		const parsed: ParsedSitemap = { pageUrls: [], childSitemaps: [] };
+		const entryPattern = /<(\w+:)?(url|sitemap)\b[^>]*>([\s\S]*?)<\/\1\2>/gi;
+
+		let match: RegExpExecArray | null;
+		while ((match = entryPattern.exec(xml)) !== null) {
+			const [, prefix = "", element, body] = match;
+			const loc = new RegExp(
+				`<${prefix}loc>\\s*([\\s\\S]*?)\\s*</${prefix}loc>`,
+				"i",
+			).exec(body);
+			if (!loc) continue;
+
+			try {
+				const location = new URL(SitemapLoader.decodeXml(loc[1])).href;
+				if (element.toLowerCase() === "sitemap") {
+					parsed.childSitemaps.push(location);
+				} else {
+					parsed.pageUrls.push(location);
+				}
+			} catch {
+				// Skip malformed <loc> entries
+			}
+		}
+
+		return parsed;
+	}
+
+	/**
+	 * Decode CDATA sections and the XML entities allowed in <loc>
+	 */
+	private static decodeXml(value: string): string {
+		return value
+			.replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+			.replace(/&lt;/g, "<")
+			.replace(/&gt;/g, ">")
+			.replace(/&quot;/g, '"')
+			.replace(/&apos;/g, "'")
+			.replace(/&amp;/g, "&")
+			.trim();
+	}
+}
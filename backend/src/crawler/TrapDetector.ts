@@ -0,0 +1,281 @@
+import { TrapFamily, TrapKind } from "./types";
+import { UrlUtils } from "../utils/UrlUtils";
+
+/**
+ * Limits that keep URL families from eating the page budget
+ */
+export interface TrapDetectionOptions {
+	maxUrlsPerTemplate?: number;
+	maxCalendarUrls?: number;
+	maxRepeatedSegments?: number;
+	maxQueryVariantsPerPath?: number;
+	maxPaginationDepth?: number;
+}
+
+/**
+ * Counters and suppressed families, as saved in a crawl checkpoint
+ */
+export interface TrapDetectorState {
+	admitted: string[];
+	templateCounts: [string, number][];
+	queryVariants: [string, string[]][];
+	families: TrapFamily[];
+	// Suppressed URL -> "<kind> <pattern>" key of its family
+	suppressed: [string, string][];
+}
+
+const PAGE_PARAMS = ["page", "p", "pg", "paged", "pagenumber", "page_number"];
+const DATE_SEGMENT =
+	/^(19|20)\d{2}([-_/](0?[1-9]|1[0-2])([-_/](0?[1-9]|[12]\d|3[01]))?)?$/;
+const MONTH_OR_DAY_SEGMENT = /^(0?[1-9]|[12]\d|3[01])$/;
+const DATE_PARAMS = ["date", "day", "month", "year", "week", "from", "to"];
+
+/**
+ * Detects crawler traps among discovered links: calendars, faceted filters,
+ * endlessly nesting paths and deep pagination
+ *
+ * URLs are admitted once and counted by family. Once a family is over its
+ * limit further members are suppressed, and every suppressed family is kept
+ * with a few examples so the patterns can be tuned.
+ */
+export class TrapDetector {
+	private readonly maxUrlsPerTemplate: number;
+	private readonly maxCalendarUrls: number;
+	private readonly maxRepeatedSegments: number;
+	private readonly maxQueryVariantsPerPath: number;
+	private readonly maxPaginationDepth: number;
+
+	private admitted = new Set<string>();
+	private templateCounts = new Map<string, number>();
+	private queryVariants = new Map<string, Set<string>>();
+	private families = new Map<string, TrapFamily>();
+	private suppressed = new Map<string, TrapFamily>();
+
+	constructor(options: TrapDetectionOptions = {}) {
+		this.maxUrlsPerTemplate = options.maxUrlsPerTemplate ?? 50;
+		this.maxCalendarUrls = options.maxCalendarUrls ?? 12;
+		this.maxRepeatedSegments = options.maxRepeatedSegments ?? 2;
+		this.maxQueryVariantsPerPath = options.maxQueryVariantsPerPath ?? 30;
+		this.maxPaginationDepth = options.maxPaginationDepth ?? 20;
+	}
+
+	/**
+	 * Admit a normalized URL, or return the trap family it was suppressed by
+	 */
+	check(url: string): TrapFamily | null {
+		if (this.admitted.has(url)) return null;
+		// Links to a suppressed URL keep turning up; count it once
+		const known = this.suppressed.get(url);
+		if (known) return known;
+
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			return null;
+		}
+
+		const template = this.getFamilyTemplate(parsed);
+		const trap =
+			this.checkRepeatingPath(parsed, template) ??
+			this.checkPagination(parsed, template) ??
+			this.checkQueryVariants(parsed) ??
+			this.checkTemplateCap(template);
+
+		if (trap) {
+			return this.recordSuppressed(trap.kind, trap.pattern, url);
+		}
+
+		this.admitted.add(url);
+		this.templateCounts.set(
+			template,
+			(this.templateCounts.get(template) ?? 0) + 1,
+		);
+		if (parsed.search) {
+			const path = `${parsed.origin}${parsed.pathname}`;
+			const variants = this.queryVariants.get(path) ?? new Set<string>();
+			variants.add(parsed.search);
+			this.queryVariants.set(path, variants);
+		}
+		return null;
+	}
+
+	/**
+	 * Snapshot the counters so a resumed crawl keeps its limits
+	 */
+	getState(): TrapDetectorState {
+		const familyKeys = new Map(
+			Array.from(this.families.entries()).map(([key, family]) => [family, key]),
+		);
+
+		return {
+			admitted: Array.from(this.admitted),
+			templateCounts: Array.from(this.templateCounts.entries()),
+			queryVariants: Array.from(this.queryVariants.entries()).map(
+				([path, variants]) => [path, Array.from(variants)],
+			),
+			families: Array.from(this.families.values()),
+			suppressed: Array.from(this.suppressed.entries()).map(([url, family]) => [
+				url,
+				familyKeys.get(family)!,
+			]),
+		};
+	}
+
+	/**
+	 * Continue counting from a saved snapshot
+	 */
+	restoreState(state: TrapDetectorState): void {
+		this.admitted = new Set(state.admitted);
+		this.templateCounts = new Map(state.templateCounts);
+		this.queryVariants = new Map(
+			state.queryVariants.map(([path, variants]) => [path, new Set(variants)]),
+		);
+		this.families = new Map(
+			state.families.map((family) => [
+				`${family.kind} ${family.pattern}`,
+				{ ...family, examples: [...family.examples] },
+			]),
+		);
+		this.suppressed = new Map();
+		state.suppressed.forEach(([url, key]) => {
+			const family = this.families.get(key);
+			if (family) this.suppressed.set(url, family);
+		});
+	}
+
+	/**
+	 * Suppressed families, largest first
+	 */
+	getFamilies(): TrapFamily[] {
+		return Array.from(this.families.values()).sort(
+			(a, b) => b.suppressedCount - a.suppressedCount,
+		);
+	}
+
+	/**
+	 * The same segment over and over: /a/b/a/b/a/b or relative-link loops
+	 */
+	private checkRepeatingPath(
+		parsed: URL,
+		template: string,
+	): { kind: TrapKind; pattern: string } | null {
+		const counts = new Map<string, number>();
+		for (const segment of parsed.pathname.split("/").filter(Boolean)) {
+			const count = (counts.get(segment) ?? 0) + 1;
+			counts.set(segment, count);
+			if (count > this.maxRepeatedSegments) {
+				return { kind: TrapKind.REPEATING_PATH, pattern: template };
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * ?page=57 or /page/57 beyond the pagination depth cap
+	 */
+	private checkPagination(
+		parsed: URL,
+		template: string,
+	): { kind: TrapKind; pattern: string } | null {
+		const pageNumbers = [
+			...Array.from(parsed.searchParams.entries())
+				.filter(([key]) => PAGE_PARAMS.includes(key.toLowerCase()))
+				.map(([, value]) => value),
+			...Array.from(parsed.pathname.matchAll(/\/page\/(\d+)/gi)).map(
+				(match) => match[1],
+			),
+		].map((value) => parseInt(value, 10));
+
+		return pageNumbers.some((page) => page > this.maxPaginationDepth)
+			? { kind: TrapKind.PAGINATION_DEPTH, pattern: template }
+			: null;
+	}
+
+	/**
+	 * Faceted filters: one path with ever more query-string combinations
+	 */
+	private checkQueryVariants(
+		parsed: URL,
+	): { kind: TrapKind; pattern: string } | null {
+		if (!parsed.search) return null;
+
+		const path = `${parsed.origin}${parsed.pathname}`;
+		const variants = this.queryVariants.get(path);
+		if (!variants || variants.size < this.maxQueryVariantsPerPath) return null;
+
+		const params = Array.from(new Set(parsed.searchParams.keys())).sort();
+		return {
+			kind: TrapKind.QUERY_COMBINATIONS,
+			pattern: `${path}?${params.map((key) => `${key}=*`).join("&")}`,
+		};
+	}
+
+	/**
+	 * Too many URLs sharing one template; calendars get a tighter cap
+	 */
+	private checkTemplateCap(
+		template: string,
+	): { kind: TrapKind; pattern: string } | null {
+		const isCalendar = template.includes(":date");
+		const limit = isCalendar ? this.maxCalendarUrls : this.maxUrlsPerTemplate;
+		if ((this.templateCounts.get(template) ?? 0) < limit) return null;
+
+		return {
+			kind: isCalendar ? TrapKind.CALENDAR : TrapKind.TEMPLATE_CAP,
+			pattern: template,
+		};
+	}
+
+	/**
+	 * URL template with dates folded in: /events/2024/05 -> /events/:date/:date
+	 */
+	private getFamilyTemplate(parsed: URL): string {
+		// Month and day numbers right after a year belong to the date
+		let afterDate = false;
+		const path = parsed.pathname
+			.split("/")
+			.map((segment) => {
+				const isDate =
+					DATE_SEGMENT.test(segment) ||
+					(afterDate && MONTH_OR_DAY_SEGMENT.test(segment));
+				afterDate = isDate;
+				return isDate ? ":date" : segment;
+			})
+			.join("/");
+
+		const dated = new URL(`${parsed.origin}${path}${parsed.search}`);
+		Array.from(dated.searchParams.entries()).forEach(([key, value]) => {
+			if (DATE_SEGMENT.test(value) || DATE_PARAMS.includes(key.toLowerCase())) {
+				dated.searchParams.set(key, ":date");
+			}
+		});
+
+		return UrlUtils.getUrlTemplate(dated.href).replace(/%3Adate/gi, ":date");
+	}
+
+	/**
+	 * Count a suppressed URL against its family
+	 */
+	private recordSuppressed(
+		kind: TrapKind,
+		pattern: string,
+		url: string,
+	): TrapFamily {
+		const key = `${kind} ${pattern}`;
+		const family = this.families.get(key) ?? {
+			kind,
+			pattern,
+			suppressedCount: 0,
+			examples: [],
+		};
+
+		family.suppressedCount++;
+		if (family.examples.length < 5) {
+			family.examples.push(url);
+		}
+		this.families.set(key, family);
+		this.suppressed.set(url, family);
+		return family;
+	}
+}
@@ -0,0 +1,184 @@
+import { LinkPosition } from "../types";
+
+/**
+ * Position of a link as computed in the page; the values of LinkPosition
+ */
+export type InPageLinkPosition = `${LinkPosition}`;
+
+declare global {
+	interface Window {
+		__ufmNavigations?: string[];
+		__ufmPopups?: string[];
+		__ufmLinkPosition?: (element: Element) => InPageLinkPosition;
+	}
+}
+
+/**
+ * Containers that decide a link's position, shared by the HTML parser and the
+ * in-page helper so both classify a link the same way
+ */
+export const LINK_POSITION_SELECTORS = {
+	breadcrumb:
+		'[aria-label*="breadcrumb" i], [itemtype*="BreadcrumbList"], [class*="breadcrumb"]',
+	pagination:
+		'[aria-label*="pagination" i], [class*="pagination"], [class*="pager"]',
+	tabs: '[role="tab"], [role="tablist"], [class*="tabs"]',
+	header: 'header, [role="banner"]',
+	navigation: 'nav, [role="navigation"], [role="menubar"], [role="menu"]',
+	footer: 'footer, [role="contentinfo"]',
+	sidebar: 'aside, [role="complementary"], [class*="sidebar"]',
+	list: 'ul, ol, [role="list"], [role="feed"], [role="grid"]',
+};
+
+export type LinkPositionSelectors = typeof LINK_POSITION_SELECTORS;
+
+/**
+ * Define window.__ufmLinkPosition, the in-page twin of the crawler's
+ * LinkPositionDetector; containers are looked up across shadow roots too
+ */
+export function installLinkPositionProbe(
+	selectors: LinkPositionSelectors,
+): void {
+	if (window.__ufmLinkPosition) return;
+
+	const within = (element: Element, selector: string): boolean => {
+		let current: Element | null = element;
+		while (current) {
+			if (current.closest(selector)) return true;
+			const root: Node = current.getRootNode();
+			current = root instanceof ShadowRoot ? root.host : null;
+		}
+		return false;
+	};
+
+	window.__ufmLinkPosition = (element) => {
+		if (within(element, selectors.breadcrumb)) return "breadcrumb";
+		if (
+			/\b(next|prev)\b/i.test(element.getAttribute("rel") ?? "") ||
+			within(element, selectors.pagination)
+		) {
+			return "pagination";
+		}
+		if (within(element, selectors.tabs)) return "tabs";
+
+		const tag = element.tagName.toLowerCase();
+		const classList = element.getAttribute("class") ?? "";
+		if (
+			(tag === "a" || tag === "button") &&
+			(element.getAttribute("role") === "button" ||
+				/\b(btn|button|cta)\b/i.test(classList))
+		) {
+			return "cta";
+		}
+
+		if (within(element, selectors.header)) return "header";
+		if (within(element, selectors.navigation)) return "navigation";
+		if (within(element, selectors.footer)) return "footer";
+		if (within(element, selectors.sidebar)) return "sidebar";
+
+		const idList = element.getAttribute("id") ?? "";
+		if (
+			["nav", "menu", "header"].some(
+				(keyword) =>
+					classList.toLowerCase().includes(keyword) ||
+					idList.toLowerCase().includes(keyword),
+			)
+		) {
+			return "navigation";
+		}
+
+		if (within(element, selectors.list)) return "in_content_list";
+		return "content";
+	};
+}
+
+/**
+ * Injected before any page script runs: records window.open targets instead
+ * of opening them, since the crawler follows the URL itself
+ */
+export function installPopupProbe(): void {
+	if (window.__ufmPopups) return;
+	window.__ufmPopups = [];
+
+	window.open = function (url?: string | URL) {
+		if (url !== undefined && url !== null && String(url) !== "") {
+			try {
+				// Callers may reset the list between interactions
+				(window.__ufmPopups ??= []).push(
+					new URL(String(url), window.location.href).href,
+				);
+			} catch {
+				// Ignore unparsable targets
+			}
+		}
+		return null;
+	};
+}
+
+/**
+ * Injected before any page script runs: records pushState/replaceState
+ * targets and marks elements that register click listeners
+ */
+export function installNavigationProbes(): void {
+	if (window.__ufmNavigations) return;
+	window.__ufmNavigations = [];
+
+	// The list is reset between clicks: look it up on every call
+	const record = (url: string | URL) => {
+		try {
+			(window.__ufmNavigations ??= []).push(
+				new URL(String(url), window.location.href).href,
+			);
+		} catch {
+			// Ignore unparsable targets
+		}
+	};
+
+	(["pushState", "replaceState"] as const).forEach((method) => {
+		const original = history[method];
+		history[method] = function (
+			this: History,
+			data: unknown,
+			unused: string,
+			url?: string | URL | null,
+		) {
+			if (url !== undefined && url !== null) record(url);
+			return original.call(this, data, unused, url);
+		};
+	});
+
+	const originalAddEventListener = EventTarget.prototype.addEventListener;
+	EventTarget.prototype.addEventListener = function (
+		this: EventTarget,
+		type: string,
+		listener: EventListenerOrEventListenerObject | null,
+		options?: boolean | AddEventListenerOptions,
+	) {
+		if (type === "click" && this instanceof Element) {
+			this.setAttribute("data-ufm-click", "");
+		}
+		return originalAddEventListener.call(this, type, listener, options);
+	};
+}
+
+/**
+ * Forget the navigations and popups recorded so far
+ */
+export function resetProbes(): void {
+	window.__ufmNavigations = [];
+	window.__ufmPopups = [];
+}
+
+/**
+ * Client-side route changes recorded since the last reset
+ */
+export function readNavigations(): string[] {
+	return window.__ufmNavigations ?? [];
+}
+
+/**
+ * window.open targets recorded since the last reset
+ */
+export function readPopups(): string[] {
+	return window.__ufmPopups ?? [];
+}
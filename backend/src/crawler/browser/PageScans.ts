@@ -0,0 +1,157 @@
+import { BrowserContext } from "playwright";
+import { LinkProminence } from "../types";
+import { InPageLinkPosition } from "./PageProbes";
+
+type SavedOrigins = Awaited<
+	ReturnType<BrowserContext["storageState"]>
+>["origins"];
+
+/**
+ * Anchor as described by the in-page walker
+ */
+export interface RawAnchor {
+	href: string;
+	text: string;
+	position: InPageLinkPosition;
+}
+
+/**
+ * Candidate element found in the page, tagged with data-ufm-candidate
+ */
+export interface ClickCandidate {
+	index: number;
+	tag: string;
+	text: string;
+	position: InPageLinkPosition;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Walk a document and every open shadow root below it, in document order
+ */
+export function collectAnchors(includeLightDom: boolean): RawAnchor[] {
+	const results: RawAnchor[] = [];
+
+	const visit = (root: Document | ShadowRoot, shadow: boolean) => {
+		if (includeLightDom || shadow) {
+			root.querySelectorAll("a[href]").forEach((anchor) => {
+				try {
+					results.push({
+						href: new URL(anchor.getAttribute("href") ?? "", document.baseURI)
+							.href,
+						text: (
+							anchor.textContent ||
+							anchor.getAttribute("aria-label") ||
+							""
+						)
+							.trim()
+							.substring(0, 100),
+						position: window.__ufmLinkPosition?.(anchor) ?? "content",
+					});
+				} catch {
+					// Ignore unparsable hrefs
+				}
+			});
+		}
+		root.querySelectorAll("*").forEach((element) => {
+			if (element.shadowRoot) visit(element.shadowRoot, true);
+		});
+	};
+
+	visit(document, false);
+	return results;
+}
+
+/**
+ * Tag visible, enabled elements matching the selector with data-ufm-candidate
+ * and describe them; anchors and form submits are left to static extraction
+ */
+export function markClickCandidates(selector: string): ClickCandidate[] {
+	const results: ClickCandidate[] = [];
+	let index = 0;
+
+	document.querySelectorAll<HTMLElement>(selector).forEach((element) => {
+		// Anchors are already covered by static extraction
+		if (element.closest("a[href]")) return;
+		if (element.matches(":disabled")) return;
+		// Submitting forms is left to form extraction
+		const isSubmit =
+			(element instanceof HTMLButtonElement ||
+				element instanceof HTMLInputElement) &&
+			element.type === "submit";
+		if (element.closest("form") && isSubmit) return;
+
+		const rect = element.getBoundingClientRect();
+		if (rect.width === 0 || rect.height === 0) return;
+
+		element.setAttribute("data-ufm-candidate", String(index));
+		results.push({
+			index,
+			tag: element.tagName.toLowerCase(),
+			text: (element.innerText || element.getAttribute("aria-label") || "")
+				.trim()
+				.substring(0, 100),
+			position: window.__ufmLinkPosition?.(element) ?? "content",
+			x: Math.round(rect.x),
+			y: Math.round(rect.y),
+			width: Math.round(rect.width),
+			height: Math.round(rect.height),
+		});
+		index++;
+	});
+
+	return results;
+}
+
+/**
+ * Measure every anchor's rendered box and styling, in document order
+ */
+export function measureAnchors(): LinkProminence[] {
+	const foldY = window.innerHeight;
+
+	return Array.from(document.querySelectorAll("a[href]")).map((anchor) => {
+		const rect = anchor.getBoundingClientRect();
+		const style = window.getComputedStyle(anchor);
+		const visible =
+			rect.width > 0 &&
+			rect.height > 0 &&
+			style.visibility !== "hidden" &&
+			parseFloat(style.opacity) > 0;
+
+		// Filled, padded links read as buttons even without a btn class
+		const background = style.backgroundColor;
+		const filled =
+			background !== "transparent" && !/rgba\(.*,\s*0\)$/.test(background);
+		const buttonStyled =
+			anchor.getAttribute("role") === "button" ||
+			/\b(btn|button|cta)\b/i.test(anchor.getAttribute("class") ?? "") ||
+			(filled && parseFloat(style.paddingLeft) >= 8);
+
+		return {
+			x: Math.round(rect.left + window.scrollX),
+			y: Math.round(rect.top + window.scrollY),
+			width: Math.round(rect.width),
+			height: Math.round(rect.height),
+			visible,
+			aboveFold: visible && rect.top + window.scrollY < foldY,
+			fontSize: parseFloat(style.fontSize) || 0,
+			buttonStyled,
+		};
+	});
+}
+
+/**
+ * Injected before any page script runs: restore the localStorage saved for
+ * the page's origin
+ */
+export function restoreLocalStorage(origins: SavedOrigins): void {
+	const saved = origins.find(
+		(entry) => entry.origin === window.location.origin,
+	);
+	saved?.localStorage.forEach(({ name, value }) => {
+		window.localStorage.setItem(name, value);
+	});
+}
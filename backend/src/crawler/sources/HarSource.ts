@@ -0,0 +1,72 @@
+import { promises as fs } from "fs";
+import { PageSource, SourceContents } from "./PageSource";
+
+/**
+ * The subset of the HAR 1.2 format we read
+ */
+interface HarEntry {
+	request: { method: string; url: string };
+	response: {
+		status: number;
+		headers: { name: string; value: string }[];
+		redirectURL?: string;
+		content?: { mimeType?: string; text?: string; encoding?: string };
+	};
+}
+
+/**
+ * Pages recorded in a HAR export (browser dev tools, proxies, Playwright)
+ */
+export class HarSource implements PageSource {
+	readonly description: string;
+
+	constructor(private readonly filePath: string) {
+		this.description = `HAR file ${filePath}`;
+	}
+
+	/**
+	 * Read HTML responses and redirects from the HAR entries
+	 */
+	async read(): Promise<SourceContents> {
+		const har = JSON.parse(await fs.readFile(this.filePath, "utf-8"));
+		const entries: HarEntry[] = har?.log?.entries ?? [];
+		const contents: SourceContents = { documents: [], redirects: [] };
+
+		entries
+			.filter((entry) => entry.request.method === "GET")
+			.forEach((entry) => {
+				const { response } = entry;
+				const headers = Object.fromEntries(
+					response.headers.map(({ name, value }) => [
+						name.toLowerCase(),
+						value,
+					]),
+				);
+
+				const location = response.redirectURL || headers["location"];
+				if (response.status >= 300 && response.status < 400 && location) {
+					contents.redirects.push({
+						from: entry.request.url,
+						to: new URL(location, entry.request.url).href,
+					});
+					return;
+				}
+
+				const mimeType = response.content?.mimeType ?? headers["content-type"];
+				const text = response.content?.text;
+				if (!text || !/html/i.test(mimeType ?? "")) return;
+
+				contents.documents.push({
+					url: entry.request.url,
+					status: response.status,
+					headers,
+					html:
+						response.content?.encoding === "base64"
+							? Buffer.from(text, "base64").toString("utf-8")
+							: text,
+				});
+			});
+
+		return contents;
+	}
+}
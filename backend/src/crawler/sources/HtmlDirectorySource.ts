@@ -0,0 +1,76 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { PageSource, SourceContents, SourceDocument } from "./PageSource";
+
+/**
+ * Pages saved as a directory of HTML files (e.g. `wget --mirror` output)
+ *
+ * File paths map onto URLs under the base URL. `about/index.html` is served
+ * as `/about/`, and `pricing.html` is also reachable as `/pricing` so
+ * extension-less links still resolve.
+ */
+export class HtmlDirectorySource implements PageSource {
+	readonly description: string;
+
+	constructor(
+		private readonly directory: string,
+		private readonly baseUrl: string,
+	) {
+		this.description = `HTML directory ${directory}`;
+	}
+
+	/**
+	 * Read every .html / .htm file below the directory
+	 */
+	async read(): Promise<SourceContents> {
+		const files = await this.listHtmlFiles(this.directory);
+		const documents: SourceDocument[] = [];
+		const redirects: SourceContents["redirects"] = [];
+
+		for (const file of files) {
+			const relativePath = path
+				.relative(this.directory, file)
+				.split(path.sep)
+				.join("/");
+			const html = await fs.readFile(file, "utf-8");
+			const fileUrl = new URL(relativePath, this.baseUrl).href;
+			const headers = { "content-type": "text/html" };
+
+			const indexMatch = relativePath.match(/(^|\/)index\.html?$/i);
+			if (indexMatch) {
+				const directoryUrl = new URL(
+					relativePath.slice(0, relativePath.length - indexMatch[0].length) +
+						indexMatch[1],
+					this.baseUrl,
+				).href;
+				documents.push({ url: directoryUrl, status: 200, headers, html });
+				redirects.push({ from: fileUrl, to: directoryUrl });
+				continue;
+			}
+
+			documents.push({ url: fileUrl, status: 200, headers, html });
+			redirects.push({ from: fileUrl.replace(/\.html?$/i, ""), to: fileUrl });
+		}
+
+		return { documents, redirects };
+	}
+
+	/**
+	 * Recursively collect HTML files
+	 */
+	private async listHtmlFiles(directory: string): Promise<string[]> {
+		const entries = await fs.readdir(directory, { withFileTypes: true });
+		const files: string[] = [];
+
+		for (const entry of entries) {
+			const fullPath = path.join(directory, entry.name);
+			if (entry.isDirectory()) {
+				files.push(...(await this.listHtmlFiles(fullPath)));
+			} else if (/\.html?$/i.test(entry.name)) {
+				files.push(fullPath);
+			}
+		}
+
+		return files.sort();
+	}
+}
@@ -0,0 +1,42 @@
+/**
+ * Where offline pages come from
+ */
+export interface PageSourceOptions {
+	type: "html" | "har" | "warc";
+	path: string;
+	baseUrl?: string; // html directories only: the URL the directory mirrors
+}
+
+/**
+ * A page as stored in an offline source
+ */
+export interface SourceDocument {
+	url: string;
+	status?: number;
+	headers: Record<string, string>;
+	html: string;
+}
+
+/**
+ * A recorded redirect (3xx with a Location)
+ */
+export interface SourceRedirect {
+	from: string;
+	to: string;
+}
+
+/**
+ * Everything a source holds: HTML documents and the redirects between URLs
+ */
+export interface SourceContents {
+	documents: SourceDocument[];
+	redirects: SourceRedirect[];
+}
+
+/**
+ * Reads pages without touching the network
+ */
+export interface PageSource {
+	readonly description: string;
+	read(): Promise<SourceContents>;
+}
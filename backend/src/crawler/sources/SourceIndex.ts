@@ -0,0 +1,106 @@
+import { PageSource, PageSourceOptions, SourceDocument } from "./PageSource";
+import { HtmlDirectorySource } from "./HtmlDirectorySource";
+import { HarSource } from "./HarSource";
+import { WarcSource } from "./WarcSource";
+import { UrlUtils, UrlCanonicalizationRules } from "../../utils/UrlUtils";
+
+/**
+ * A document found for a URL, with the redirects followed to reach it
+ */
+export interface SourceLookup {
+	document: SourceDocument;
+	redirectChain: string[];
+}
+
+/**
+ * Offline pages indexed by normalized URL, standing in for the network
+ */
+export class SourceIndex {
+	private static readonly MAX_REDIRECTS = 10;
+	private documents: Map<string, SourceDocument> = new Map();
+	private redirects: Map<string, string> = new Map(); // from -> to
+
+	private constructor(
+		readonly description: string,
+		private readonly rules?: UrlCanonicalizationRules,
+	) {}
+
+	/**
+	 * Build the page source described by the options
+	 */
+	static createSource(
+		options: PageSourceOptions,
+		startUrl: string,
+	): PageSource {
+		switch (options.type) {
+			case "html":
+				return new HtmlDirectorySource(
+					options.path,
+					options.baseUrl ?? new URL("/", startUrl).href,
+				);
+			case "har":
+				return new HarSource(options.path);
+			case "warc":
+				return new WarcSource(options.path);
+		}
+	}
+
+	/**
+	 * Read a source and index its documents and redirects
+	 */
+	static async open(
+		options: PageSourceOptions,
+		startUrl: string,
+		rules?: UrlCanonicalizationRules,
+	): Promise<SourceIndex> {
+		const source = SourceIndex.createSource(options, startUrl);
+		const { documents, redirects } = await source.read();
+		const index = new SourceIndex(source.description, rules);
+
+		// Later captures of the same URL win, as they would on a live site
+		documents.forEach((document) => {
+			index.documents.set(index.normalize(document.url), document);
+		});
+		redirects.forEach(({ from, to }) => {
+			const key = index.normalize(from);
+			if (!index.documents.has(key)) {
+				index.redirects.set(key, index.normalize(to));
+			}
+		});
+
+		return index;
+	}
+
+	/**
+	 * Number of HTML documents in the source
+	 */
+	get size(): number {
+		return this.documents.size;
+	}
+
+	/**
+	 * Find the document for a URL, following recorded redirects
+	 */
+	lookup(url: string): SourceLookup | undefined {
+		const redirectChain: string[] = [];
+		let key = this.normalize(url);
+
+		while (
+			this.redirects.has(key) &&
+			redirectChain.length < SourceIndex.MAX_REDIRECTS
+		) {
+			redirectChain.push(key);
+			key = this.redirects.get(key)!;
+		}
+
+		const document = this.documents.get(key);
+		return document ? { document, redirectChain } : undefined;
+	}
+
+	/**
+	 * Normalize with the crawl's canonicalization rules
+	 */
+	private normalize(url: string): string {
+		return UrlUtils.normalize(url, this.rules);
+	}
+}
@@ -0,0 +1,157 @@
+import { promises as fs } from "fs";
+import { constants, gunzipSync } from "zlib";
+import { PageSource, SourceContents } from "./PageSource";
+
+/**
+ * Pages captured in a WARC archive (.warc or .warc.gz)
+ *
+ * Only `response` records are read; their block is the raw HTTP response,
+ * which is parsed here including chunked and gzip-encoded bodies.
+ */
+export class WarcSource implements PageSource {
+	readonly description: string;
+
+	constructor(private readonly filePath: string) {
+		this.description = `WARC archive ${filePath}`;
+	}
+
+	/**
+	 * Read HTML responses and redirects from the archive's response records
+	 */
+	async read(): Promise<SourceContents> {
+		let data: Buffer = await fs.readFile(this.filePath);
+		if (data[0] === 0x1f && data[1] === 0x8b) {
+			data = this.gunzipArchive(data);
+		}
+
+		const contents: SourceContents = { documents: [], redirects: [] };
+		let offset = 0;
+
+		while (offset < data.length) {
+			const headerEnd = data.indexOf("\r\n\r\n", offset);
+			if (headerEnd === -1) break;
+
+			const headers = this.parseHeaders(
+				data.subarray(offset, headerEnd).toString("utf-8"),
+			);
+			const length = parseInt(headers["content-length"] ?? "0", 10);
+			const blockStart = headerEnd + 4;
+			const block = data.subarray(blockStart, blockStart + length);
+			offset = blockStart + length;
+
+			// Records are separated by a blank line
+			while (data[offset] === 0x0d || data[offset] === 0x0a) offset++;
+
+			const targetUri = headers["warc-target-uri"]?.replace(/^<|>$/g, "");
+			if (headers["warc-type"] !== "response" || !targetUri) continue;
+			if (!block.subarray(0, 5).toString().startsWith("HTTP/")) continue;
+
+			// One damaged record should not cost the rest of the archive
+			try {
+				this.readHttpResponse(targetUri, block, contents);
+			} catch (error: any) {
+				console.warn(
+					`   ⚠️  Skipping unreadable WARC record for ${targetUri}: ${error.message}`,
+				);
+			}
+		}
+
+		return contents;
+	}
+
+	/**
+	 * Decompress the archive; a truncated download still yields every record
+	 * before the damage
+	 */
+	private gunzipArchive(data: Buffer): Buffer {
+		try {
+			return gunzipSync(data);
+		} catch (error: any) {
+			console.warn(
+				`   ⚠️  ${this.filePath} is damaged (${error.message}), reading what is left`,
+			);
+			return gunzipSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+		}
+	}
+
+	/**
+	 * Turn one raw HTTP response into a document or a redirect
+	 */
+	private readHttpResponse(
+		url: string,
+		block: Buffer,
+		contents: SourceContents,
+	): void {
+		const headerEnd = block.indexOf("\r\n\r\n");
+		if (headerEnd === -1) return;
+
+		const [statusLine, ...headerLines] = block
+			.subarray(0, headerEnd)
+			.toString("latin1")
+			.split("\r\n");
+		const status = parseInt(statusLine.split(" ")[1], 10);
+		const headers = this.parseHeaders(headerLines.join("\r\n"));
+
+		if (status >= 300 && status < 400 && headers["location"]) {
+			contents.redirects.push({
+				from: url,
+				to: new URL(headers["location"], url).href,
+			});
+			return;
+		}
+
+		if (!/html/i.test(headers["content-type"] ?? "")) return;
+
+		let body = block.subarray(headerEnd + 4);
+		if (/chunked/i.test(headers["transfer-encoding"] ?? "")) {
+			body = this.decodeChunked(body);
+		}
+		if (/gzip/i.test(headers["content-encoding"] ?? "")) {
+			body = gunzipSync(body);
+		}
+
+		contents.documents.push({
+			url,
+			status,
+			headers,
+			html: body.toString("utf-8"),
+		});
+	}
+
+	/**
+	 * Parse "Name: value" lines into a lower-cased header map
+	 */
+	private parseHeaders(text: string): Record<string, string> {
+		const headers: Record<string, string> = {};
+		text.split("\r\n").forEach((line) => {
+			const separator = line.indexOf(":");
+			if (separator > 0) {
+				headers[line.slice(0, separator).trim().toLowerCase()] = line
+					.slice(separator + 1)
+					.trim();
+			}
+		});
+		return headers;
+	}
+
+	/**
+	 * Reassemble a chunked transfer-encoded body
+	 */
+	private decodeChunked(body: Buffer): Buffer {
+		const chunks: Buffer[] = [];
+		let offset = 0;
+
+		while (offset < body.length) {
+			const lineEnd = body.indexOf("\r\n", offset);
+			if (lineEnd === -1) break;
+
+			const size = parseInt(body.subarray(offset, lineEnd).toString(), 16);
+			if (!size) break;
+
+			chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+			offset = lineEnd + 2 + size + 2;
+		}
+
+		return Buffer.concat(chunks);
+	}
+}
@@ -4,13 +4,123 @@ export interface PageMetadata {
 	depth: number;
 	outgoingLinks: Link[];
 	timestamp: number;
+	inSitemap?: boolean;
+	sitemapOnly?: boolean;
+	state?: PageState;
+	status?: number;
+	responseTimeMs?: number;
+	redirectChain?: string[];
+	finalUrl?: string;
+	canonicalUrl?: string;
+	aliases?: string[];
+	structureFingerprint?: string[];
+	forms?: PageForm[];
+	contentHash?: string;
+	etag?: string;
+	lastModified?: string;
+	screenshots?: PageScreenshots;
+	apiCalls?: ApiCall[];
+	renderedWith?: "browser" | "static";
+	error?: string;
+}
+
+/**
+ * An XHR / fetch request made while the page loaded
+ */
+export interface ApiCall {
+	method: string;
+	url: string;
+	template: string;
+	resourceType: string;
+	status?: number;
+	durationMs?: number;
+	failed?: boolean;
+}
+
+/**
+ * Screenshot files for a page, relative to the output directory
+ */
+export interface PageScreenshots {
+	viewport?: string;
+	fullPage?: string;
+	thumbnail?: string;
+}
+
+export enum PageState {
+	OK = "ok",
+	HTTP_ERROR = "http_error",
+	TIMEOUT = "timeout",
+	FAILED = "failed",
 }
 
 export interface Link {
+	// Canonical URL: the key pages, edges and dedup use
 	href: string;
+	// URL as found on the page (in-page anchors dropped); this is what gets fetched
+	fetchUrl?: string;
 	text: string;
 	position: LinkPosition;
 	context: string;
+	discoveredBy?: LinkDiscovery;
+	origin?: LinkOrigin;
+	trigger?: LinkTrigger;
+	prominence?: LinkProminence;
+}
+
+/**
+ * How a link rendered: page-coordinate box, visibility and styling cues
+ */
+export interface LinkProminence {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	visible: boolean;
+	aboveFold: boolean;
+	fontSize: number;
+	buttonStyled: boolean;
+}
+
+export enum LinkDiscovery {
+	ANCHOR = "anchor",
+	INTERACTION = "interaction",
+}
+
+/**
+ * Where a link lives: the page's own HTML, an iframe, a shadow root, or a
+ * new window the page opens
+ */
+export enum LinkOrigin {
+	DOCUMENT = "document",
+	IFRAME = "iframe",
+	SHADOW = "shadow",
+	POPUP = "popup",
+}
+
+/**
+ * Element that triggered a navigation found by interactive discovery
+ */
+export interface LinkTrigger {
+	tag: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface PageForm {
+	action: string;
+	fetchUrl?: string;
+	method: string;
+	fields: FormField[];
+	submitText: string;
+	position: LinkPosition;
+}
+
+export interface FormField {
+	name: string;
+	type: string;
+	required: boolean;
 }
 
 export enum LinkPosition {
@@ -19,6 +129,24 @@ export enum LinkPosition {
 	CONTENT = "content",
 	FOOTER = "footer",
 	SIDEBAR = "sidebar",
+	BREADCRUMB = "breadcrumb",
+	PAGINATION = "pagination",
+	TABS = "tabs",
+	CTA = "cta",
+	IN_CONTENT_LIST = "in_content_list",
+}
+
+/**
+ * One step of a scripted login; values may use {{username}}, {{password}}
+ * and {{totp}} placeholders
+ */
+export interface LoginStep {
+	action: "goto" | "fill" | "click" | "press" | "wait";
+	selector?: string;
+	value?: string;
+	url?: string;
+	key?: string;
+	timeoutMs?: number;
 }
 
 export interface CrawlResult {
@@ -27,3 +155,44 @@ export interface CrawlResult {
 	crawlDuration: number;
 	totalPagesVisited: number;
 }
+
+export enum SkipReason {
+	ROBOTS = "robots",
+	CONTENT_TYPE = "content_type",
+	NOT_IN_SOURCE = "not_in_source",
+	TRAP = "trap",
+}
+
+export interface SkippedUrl {
+	url: string;
+	reason: SkipReason;
+	foundOn?: string;
+}
+
+/**
+ * A family of URLs suppressed as a crawler trap, with a few examples
+ */
+export interface TrapFamily {
+	kind: TrapKind;
+	pattern: string;
+	suppressedCount: number;
+	examples: string[];
+}
+
+export enum TrapKind {
+	TEMPLATE_CAP = "template_cap",
+	CALENDAR = "calendar",
+	REPEATING_PATH = "repeating_path",
+	QUERY_COMBINATIONS = "query_combinations",
+	PAGINATION_DEPTH = "pagination_depth",
+}
+
+/**
+ * Pages added, changed or removed since the previous crawl snapshot
+ */
+export interface ChangeReport {
+	added: string[];
+	changed: string[];
+	removed: string[];
+	unchanged: number;
+}
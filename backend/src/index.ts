@@ -1,6 +1,21 @@
 import { CrawlConfig, CrawlConfigValidator } from "./config/CrawlConfig";
 import { PageCrawler } from "./crawler/PageCrawler";
+import { DeviceProfiles } from "./crawler/DeviceProfiles";
+import {
+	ChangeReport,
+	PageMetadata,
+	SkippedUrl,
+	TrapFamily,
+} from "./crawler/types";
 import { FlowAnalyzer } from "./analyzer/FlowAnalyzer";
+import { FlowComparator, FlowVariant } from "./analyzer/FlowComparator";
+import {
+	DeviceSummary,
+	FlowAnalysisOptions,
+	FlowEdge,
+	FlowNode,
+	UserFlow,
+} from "./analyzer/types";
 import { FlowFormatter } from "./output/FlowFormatter";
 import { TextFlowGenerator } from "./output/TextFlowGenerator";
 import * as fs from "fs";
@@ -11,9 +26,12 @@ export class UserFlowMapper {
 	private flowAnalyzer: FlowAnalyzer;
 	private flowFormatter: FlowFormatter;
 	private textFlowGenerator: TextFlowGenerator;
+	private activeCrawler: PageCrawler;
+	private stopRequested = false;
 
 	constructor() {
 		this.pageCrawler = new PageCrawler();
+		this.activeCrawler = this.pageCrawler;
 		this.flowAnalyzer = new FlowAnalyzer();
 		this.flowFormatter = new FlowFormatter();
 		this.textFlowGenerator = new TextFlowGenerator();
@@ -58,24 +76,35 @@ export class UserFlowMapper {
 			console.log("\n🕷️  Crawling website...");
 			console.log("   (This may take 1-2 minutes, press Ctrl+C to stop)\n");
 
-			const pages = await this.pageCrawler.crawl(validatedConfig);
+			let userFlow: UserFlow;
+			let skippedUrls: SkippedUrl[];
+			let traps: TrapFamily[];
+			let changes: ChangeReport | undefined;
 
-			if (pages.size === 0) {
-				throw new Error(
-					"No pages were crawled. The website may be blocking automated access.",
-				);
+			if (validatedConfig.personas?.length) {
+				({ userFlow, skippedUrls, traps } =
+					await this.mapPersonas(validatedConfig));
+			} else if (validatedConfig.devices?.length) {
+				({ userFlow, skippedUrls, traps } =
+					await this.mapDevices(validatedConfig));
+			} else {
+				({ userFlow } = await this.crawlAndAnalyze(
+					validatedConfig,
+					this.pageCrawler,
+				));
+				skippedUrls = this.pageCrawler.getSkippedUrls();
+				traps = this.pageCrawler.getTrapFamilies();
+				changes = this.pageCrawler.getChangeReport() ?? undefined;
 			}
 
-			console.log(`✅ Crawled ${pages.size} pages`);
-
-			console.log("\n🔍 Analyzing user flows...");
-			const userFlow = this.flowAnalyzer.analyze(
-				pages,
-				validatedConfig.startUrl,
-			);
-
 			const crawlDuration = Date.now() - startTime;
-			const output = this.flowFormatter.format(userFlow, crawlDuration);
+			const output = this.flowFormatter.format(
+				userFlow,
+				crawlDuration,
+				skippedUrls,
+				changes,
+				traps,
+			);
 			const jsonOutput = this.flowFormatter.toJSON(output);
 
 			console.log("\n📊 Generating diagrams...");
@@ -100,6 +129,259 @@ export class UserFlowMapper {
 			throw error;
 		}
 	}
+
+	/**
+	 * Stop crawling gracefully; pages collected so far are still analyzed
+	 */
+	async stop(): Promise<void> {
+		this.stopRequested = true;
+		await this.activeCrawler.stop();
+	}
+
+	/**
+	 * How crawled pages are keyed into flow nodes
+	 */
+	private analysisOptions(config: CrawlConfig): FlowAnalysisOptions {
+		return {
+			canonicalization: config.canonicalization,
+			clustering: config.clustering,
+		};
+	}
+
+	/**
+	 * Crawl the site with the given crawler and analyze the resulting pages
+	 */
+	private async crawlAndAnalyze(
+		config: CrawlConfig,
+		pageCrawler: PageCrawler,
+	): Promise<{ pages: Map<string, PageMetadata>; userFlow: UserFlow }> {
+		const pages = await pageCrawler.crawl(config);
+
+		if (pages.size === 0) {
+			throw new Error(
+				"No pages were crawled. The website may be blocking automated access.",
+			);
+		}
+
+		console.log(`✅ Crawled ${pages.size} pages`);
+
+		console.log("\n🔍 Analyzing user flows...");
+		const userFlow = this.flowAnalyzer.analyze(
+			pages,
+			config.startUrl,
+			this.analysisOptions(config),
+		);
+
+		// Key-page screenshots wait until the analyzer has picked the flow's nodes
+		// Offline sources have nothing to render, so key-page screenshots are skipped
+		if (
+			config.screenshots?.enabled &&
+			config.screenshots.scope === "key" &&
+			!config.source
+		) {
+			// Cluster nodes are URL templates, so shoot one of their members instead
+			const targetUrl = (node: FlowNode) =>
+				node.metadata.cluster?.exampleUrls[0] ?? node.url;
+			const screenshots = await pageCrawler.captureScreenshots(
+				userFlow.nodes.map(targetUrl),
+				config,
+			);
+			userFlow.nodes.forEach((node) => {
+				node.metadata.screenshots = screenshots.get(targetUrl(node));
+			});
+		}
+
+		return { pages, userFlow };
+	}
+
+	/**
+	 * Crawl once per persona and merge the flows into one tagged graph
+	 */
+	private async mapPersonas(config: CrawlConfig): Promise<{
+		userFlow: UserFlow;
+		skippedUrls: SkippedUrl[];
+		traps: TrapFamily[];
+	}> {
+		const { variants, skippedUrls, traps } = await this.crawlVariants(
+			(config.personas ?? []).map((persona) => ({
+				name: persona.name,
+				label: `👤 Persona: ${persona.name}`,
+				config: CrawlConfigValidator.forPersona(config, persona),
+			})),
+		);
+
+		if (variants.length === 0) {
+			throw new Error("No persona produced any crawled pages.");
+		}
+
+		const comparison = new FlowComparator().compare(
+			variants,
+			this.analysisOptions(config),
+		);
+
+		console.log("\n👥 Persona Comparison:");
+		comparison.summaries.forEach((summary) => {
+			console.log(
+				`   - ${summary.name}: ${summary.pageCount} pages, ${summary.exclusivePages.length} exclusive`,
+			);
+		});
+
+		return {
+			userFlow: {
+				...comparison.flow,
+				nodes: comparison.flow.nodes.map((node) => ({
+					...node,
+					metadata: {
+						...node.metadata,
+						personas: comparison.nodeVariants.get(node.id) ?? [],
+					},
+				})),
+				edges: comparison.flow.edges.map((edge) => ({
+					...edge,
+					personas:
+						comparison.edgeVariants.get(FlowComparator.edgeKey(edge)) ?? [],
+				})),
+				personas: comparison.summaries,
+			},
+			skippedUrls,
+			traps,
+		};
+	}
+
+	/**
+	 * Crawl once per device profile and report what only one device reaches,
+	 * e.g. links a mobile layout hides behind a hamburger menu
+	 */
+	private async mapDevices(config: CrawlConfig): Promise<{
+		userFlow: UserFlow;
+		skippedUrls: SkippedUrl[];
+		traps: TrapFamily[];
+	}> {
+		const profiles = (config.devices ?? []).map((device) =>
+			DeviceProfiles.resolve(device),
+		);
+		const { variants, skippedUrls, traps } = await this.crawlVariants(
+			profiles.map((profile) => ({
+				name: profile.name,
+				label: `📱 Device: ${profile.name} (${profile.deviceClass}, ${profile.viewport.width}x${profile.viewport.height})`,
+				config: CrawlConfigValidator.forDevice(config, profile),
+			})),
+		);
+
+		if (variants.length === 0) {
+			throw new Error("No device profile produced any crawled pages.");
+		}
+
+		const comparison = new FlowComparator().compare(
+			variants,
+			this.analysisOptions(config),
+		);
+		const edgeDevices = (edge: FlowEdge) =>
+			comparison.edgeVariants.get(FlowComparator.edgeKey(edge)) ?? [];
+
+		const devices: DeviceSummary[] = comparison.summaries.map((summary) => {
+			const profile = profiles.find(({ name }) => name === summary.name)!;
+			return {
+				...summary,
+				deviceClass: profile.deviceClass,
+				viewport: profile.viewport,
+				exclusiveEdges: FlowComparator.exclusiveEdges(comparison, summary.name),
+			};
+		});
+
+		console.log("\n📱 Device Comparison:");
+		devices.forEach((device) => {
+			console.log(
+				`   - ${device.name}: ${device.pageCount} pages, ${device.exclusivePages.length} exclusive pages, ${device.exclusiveEdges.length} exclusive links`,
+			);
+		});
+
+		return {
+			userFlow: {
+				...comparison.flow,
+				nodes: comparison.flow.nodes.map((node) => ({
+					...node,
+					metadata: {
+						...node.metadata,
+						devices: comparison.nodeVariants.get(node.id) ?? [],
+					},
+				})),
+				edges: comparison.flow.edges.map((edge) => ({
+					...edge,
+					devices: edgeDevices(edge),
+				})),
+				devices,
+			},
+			skippedUrls,
+			traps,
+		};
+	}
+
+	/**
+	 * Crawl and analyze each variant with a fresh crawler, collecting skipped
+	 * URLs and trap families across all of them
+	 */
+	private async crawlVariants(
+		runs: { name: string; label: string; config: CrawlConfig }[],
+	): Promise<{
+		variants: FlowVariant[];
+		skippedUrls: SkippedUrl[];
+		traps: TrapFamily[];
+	}> {
+		const variants: FlowVariant[] = [];
+		const skippedUrls = new Map<string, SkippedUrl>();
+		const traps = new Map<string, TrapFamily>();
+
+		for (const run of runs) {
+			console.log(`\n${run.label}`);
+
+			if (this.stopRequested) break;
+
+			// A fresh crawler per variant keeps visited URLs and sessions apart
+			const pageCrawler = new PageCrawler();
+			this.activeCrawler = pageCrawler;
+			try {
+				const { pages, userFlow } = await this.crawlAndAnalyze(
+					run.config,
+					pageCrawler,
+				);
+				variants.push({
+					name: run.name,
+					flow: userFlow,
+					pages,
+					changes: pageCrawler.getChangeReport() ?? undefined,
+				});
+			} catch (error: any) {
+				console.warn(`   ⚠️  ${run.name} failed: ${error.message}`);
+			}
+
+			pageCrawler
+				.getSkippedUrls()
+				.forEach((entry) => skippedUrls.set(entry.url, entry));
+
+			// The same trap usually shows up for every variant: add up the counts
+			pageCrawler.getTrapFamilies().forEach((family) => {
+				const key = `${family.kind} ${family.pattern}`;
+				const existing = traps.get(key);
+				traps.set(
+					key,
+					existing
+						? {
+								...existing,
+								suppressedCount:
+									existing.suppressedCount + family.suppressedCount,
+							}
+						: family,
+				);
+			});
+		}
+
+		return {
+			variants,
+			skippedUrls: Array.from(skippedUrls.values()),
+			traps: Array.from(traps.values()),
+		};
+	}
 }
 
 // CLI with constraints support
@@ -119,10 +401,100 @@ async function main() {
 		const configFile = fs.readFileSync(configPath, "utf-8");
 		config = JSON.parse(configFile);
 	} else {
+		const positional = args.filter((arg) => !arg.startsWith("--"));
 		config = {
-			startUrl: args[0],
-			maxDepth: args[1] ? parseInt(args[1]) : 3,
-			maxPages: args[2] ? parseInt(args[2]) : 50,
+			startUrl: positional[0],
+			maxDepth: positional[1] ? parseInt(positional[1]) : 3,
+			maxPages: positional[2] ? parseInt(positional[2]) : 50,
+		};
+	}
+
+	// Checkpointing: --checkpoint-dir=<dir> saves state, --resume continues it
+	const checkpointDirArg = args.find((arg) =>
+		arg.startsWith("--checkpoint-dir="),
+	);
+	const resume = args.includes("--resume");
+	if (checkpointDirArg || resume) {
+		config.checkpoint = {
+			...config.checkpoint,
+			directory: checkpointDirArg
+				? checkpointDirArg.split("=")[1]
+				: config.checkpoint?.directory,
+			resume: resume || config.checkpoint?.resume,
+		};
+	}
+
+	// Render mode: --render=static|auto skips the browser where it can
+	const renderArg = args.find((arg) => arg.startsWith("--render="));
+	if (renderArg) {
+		const renderMode = renderArg.split("=")[1];
+		if (!["browser", "static", "auto"].includes(renderMode)) {
+			console.error(`❌ Unknown render mode: ${renderMode}`);
+			process.exit(1);
+		}
+		config.renderMode = renderMode as CrawlConfig["renderMode"];
+	}
+
+	// Crawl order: --strategy=best-first spends the page budget on likely key pages first
+	const strategyArg = args.find((arg) => arg.startsWith("--strategy="));
+	if (strategyArg) {
+		const strategy = strategyArg.split("=")[1];
+		if (!["breadth-first", "best-first"].includes(strategy)) {
+			console.error(`❌ Unknown crawl strategy: ${strategy}`);
+			process.exit(1);
+		}
+		config.crawlStrategy = strategy as CrawlConfig["crawlStrategy"];
+	}
+
+	// Offline source: --source=html|har|warc:<path> reads saved pages instead of the site
+	const sourceArg = args.find((arg) => arg.startsWith("--source="));
+	if (sourceArg) {
+		const value = sourceArg.slice("--source=".length);
+		const separator = value.indexOf(":");
+		const type = value.slice(0, separator);
+		if (separator < 0 || !["html", "har", "warc"].includes(type)) {
+			console.error(`❌ Unknown source: ${value} (use html|har|warc:<path>)`);
+			process.exit(1);
+		}
+		config.source = {
+			...config.source,
+			type: type as "html" | "har" | "warc",
+			path: value.slice(separator + 1),
+		};
+	}
+
+	// Device emulation: --device=mobile crawls as one device,
+	// --devices=desktop,mobile crawls as each and compares what they reach
+	const deviceArg = args.find((arg) => arg.startsWith("--device="));
+	if (deviceArg) {
+		config.device = deviceArg.slice("--device=".length);
+	}
+	const devicesArg = args.find((arg) => arg.startsWith("--devices="));
+	if (devicesArg) {
+		config.devices = devicesArg
+			.slice("--devices=".length)
+			.split(",")
+			.filter(Boolean);
+	}
+
+	// Screenshots: --screenshots for every page, --screenshots=key for flow nodes only
+	const screenshotsArg = args.find((arg) => arg.startsWith("--screenshots"));
+	if (screenshotsArg) {
+		config.screenshots = {
+			...config.screenshots,
+			enabled: true,
+			scope: screenshotsArg === "--screenshots=key" ? "key" : "all",
+		};
+	}
+
+	// Incremental recrawl: --incremental[=<snapshot.json>] revalidates the last crawl
+	const incrementalArg = args.find((arg) => arg.startsWith("--incremental"));
+	if (incrementalArg) {
+		config.incremental = {
+			enabled: true,
+			snapshotPath: incrementalArg.includes("=")
+				? incrementalArg.split("=")[1]
+				: config.incremental?.snapshotPath,
 		};
 	}
 
@@ -136,10 +508,10 @@ async function main() {
 		}
 		isShuttingDown = true;
 		console.log("\n\n⏸️  Stopping crawl... (press Ctrl+C again to force quit)");
-		setTimeout(() => {
-			console.log("⏱️  Timeout reached, forcing quit");
-			process.exit(1);
-		}, 5000);
+		// Pages in flight finish, state is checkpointed and the partial map is written
+		mapper.stop().catch((error) => {
+			console.error("Failed to stop cleanly:", error);
+		});
 	});
 
 	try {
@@ -1,8 +1,12 @@
-import { UserFlow } from "../analyzer/types";
+import { HierarchyNode, UserFlow } from "../analyzer/types";
+import { ChangeReport, SkippedUrl, TrapFamily } from "../crawler/types";
 import {
 	FlowVisualizationOutput,
 	VisualizationNode,
 	VisualizationEdge,
+	SkippedUrlEntry,
+	HierarchyNodeEntry,
+	ChangeReportEntry,
 } from "./types";
 
 /**
@@ -12,7 +16,13 @@ export class FlowFormatter {
 	/**
 	 * Convert internal user flow to visualization-friendly format
 	 */
-	format(flow: UserFlow, crawlDuration: number): FlowVisualizationOutput {
+	format(
+		flow: UserFlow,
+		crawlDuration: number,
+		skippedUrls: SkippedUrl[] = [],
+		changes?: ChangeReport,
+		traps: TrapFamily[] = [],
+	): FlowVisualizationOutput {
 		const nodes: VisualizationNode[] = flow.nodes.map((node) => ({
 			id: node.id,
 			label: node.label,
@@ -20,6 +30,16 @@ export class FlowFormatter {
 			type: node.type,
 			depth: node.metadata.depth,
 			pageTitle: node.metadata.pageTitle,
+			aliases: node.metadata.aliases,
+			template: node.metadata.cluster?.template,
+			memberCount: node.metadata.cluster?.memberCount,
+			exampleUrls: node.metadata.cluster?.exampleUrls,
+			personas: node.metadata.personas,
+			devices: node.metadata.devices,
+			thumbnail: node.metadata.screenshots?.thumbnail,
+			screenshot:
+				node.metadata.screenshots?.fullPage ??
+				node.metadata.screenshots?.viewport,
 		}));
 
 		const edges: VisualizationEdge[] = flow.edges.map((edge, index) => ({
@@ -28,6 +48,9 @@ export class FlowFormatter {
 			target: edge.target,
 			weight: edge.weight,
 			label: edge.label,
+			kind: edge.kind,
+			personas: edge.personas,
+			devices: edge.devices,
 		}));
 
 		// Calculate statistics
@@ -41,6 +64,12 @@ export class FlowFormatter {
 			maxDepth = Math.max(maxDepth, node.metadata.depth);
 		});
 
+		const skipped: SkippedUrlEntry[] = skippedUrls.map((entry) => ({
+			url: entry.url,
+			reason: entry.reason,
+			foundOn: entry.foundOn,
+		}));
+
 		const averageDepth =
 			flow.nodes.length > 0 ? totalDepth / flow.nodes.length : 0;
 
@@ -59,6 +88,82 @@ export class FlowFormatter {
 				maxDepth,
 				totalEdges: edges.length,
 			},
+			skippedUrls: skipped,
+			traps: traps.map((family) => ({
+				kind: family.kind,
+				pattern: family.pattern,
+				suppressedCount: family.suppressedCount,
+				examples: [...family.examples],
+			})),
+			orphanPages: flow.orphanPages.map((page) => ({
+				url: page.url,
+				title: page.title,
+			})),
+			brokenLinks: flow.brokenLinks.map((broken) => ({
+				url: broken.url,
+				status: broken.status,
+				state: broken.state,
+				error: broken.error,
+				sources: broken.sources.map((source) => ({ ...source })),
+			})),
+			personas: flow.personas?.map((persona) => ({
+				name: persona.name,
+				pageCount: persona.pageCount,
+				exclusivePages: persona.exclusivePages.map((page) => ({ ...page })),
+				changes: persona.changes && this.formatChanges(persona.changes),
+			})),
+			devices: flow.devices?.map((device) => ({
+				name: device.name,
+				deviceClass: device.deviceClass,
+				viewport: { ...device.viewport },
+				pageCount: device.pageCount,
+				exclusivePages: device.exclusivePages.map((page) => ({ ...page })),
+				exclusiveEdges: device.exclusiveEdges.map((edge) => ({ ...edge })),
+				changes: device.changes && this.formatChanges(device.changes),
+			})),
+			apiDependencies: flow.apiDependencies && {
+				endpoints: flow.apiDependencies.endpoints.map((endpoint) => ({
+					...endpoint,
+					statuses: [...endpoint.statuses],
+					pages: [...endpoint.pages],
+				})),
+				pages: flow.apiDependencies.pages.map((page) => ({
+					...page,
+					endpoints: [...page.endpoints],
+				})),
+			},
+			hierarchy: flow.hierarchy && {
+				root: this.formatHierarchyNode(flow.hierarchy.root),
+				conflicts: flow.hierarchy.conflicts.map((conflict) => ({
+					...conflict,
+					alternatives: [...conflict.alternatives],
+				})),
+			},
+			changes: changes && this.formatChanges(changes),
+		};
+	}
+
+	/**
+	 * Copy an incremental change report
+	 */
+	private formatChanges(changes: ChangeReport): ChangeReportEntry {
+		return {
+			added: [...changes.added],
+			changed: [...changes.changed],
+			removed: [...changes.removed],
+			unchanged: changes.unchanged,
+		};
+	}
+
+	/**
+	 * Copy a hierarchy subtree
+	 */
+	private formatHierarchyNode(node: HierarchyNode): HierarchyNodeEntry {
+		return {
+			url: node.url,
+			title: node.title,
+			source: node.source,
+			children: node.children.map((child) => this.formatHierarchyNode(child)),
 		};
 	}
 
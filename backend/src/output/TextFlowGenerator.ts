@@ -1,4 +1,4 @@
-import { UserFlow, FlowNode, FlowEdge } from "../analyzer/types";
+import { UserFlow, FlowNode, FlowEdge, HierarchyNode } from "../analyzer/types";
 
 /**
  * Generates text-based user flow diagrams in multiple formats
@@ -17,6 +17,59 @@ export class TextFlowGenerator {
 		lines.push(`Total Edges: ${flow.edges.length}`);
 		lines.push(`Start URL: ${flow.metadata.startUrl}`);
 		lines.push("");
+
+		if (flow.personas && flow.personas.length > 0) {
+			lines.push("───────────────────────────────────────────────");
+			lines.push("PERSONAS:");
+			lines.push("───────────────────────────────────────────────");
+			flow.personas.forEach((persona) => {
+				lines.push(
+					`${persona.name}: ${persona.pageCount} pages (${persona.exclusivePages.length} exclusive)`,
+				);
+				persona.exclusivePages.slice(0, 10).forEach((page) => {
+					lines.push(`  • ${page.title || page.url}`);
+				});
+			});
+			lines.push("");
+		}
+		if (flow.devices && flow.devices.length > 0) {
+			lines.push("───────────────────────────────────────────────");
+			lines.push("DEVICES:");
+			lines.push("───────────────────────────────────────────────");
+			flow.devices.forEach((device) => {
+				lines.push(
+					`${device.name} (${device.deviceClass}, ${device.viewport.width}x${device.viewport.height}): ${device.pageCount} pages (${device.exclusivePages.length} exclusive pages, ${device.exclusiveEdges.length} exclusive links)`,
+				);
+				device.exclusivePages.slice(0, 10).forEach((page) => {
+					lines.push(`  • ${page.title || page.url}`);
+				});
+				device.exclusiveEdges.slice(0, 10).forEach((edge) => {
+					const label = (id: string) =>
+						flow.nodes.find((node) => node.id === id)?.label ?? id;
+					lines.push(`  → ${label(edge.source)} → ${label(edge.target)}`);
+				});
+			});
+			lines.push("");
+		}
+		if (flow.apiDependencies && flow.apiDependencies.endpoints.length > 0) {
+			lines.push("───────────────────────────────────────────────");
+			lines.push("API DEPENDENCIES:");
+			lines.push("───────────────────────────────────────────────");
+			flow.apiDependencies.endpoints.slice(0, 20).forEach((endpoint) => {
+				lines.push(
+					`${endpoint.id} (${endpoint.pages.length} pages, ${endpoint.callCount} calls)`,
+				);
+			});
+			lines.push("");
+		}
+		if (flow.hierarchy) {
+			lines.push("───────────────────────────────────────────────");
+			lines.push("SITE HIERARCHY:");
+			lines.push("───────────────────────────────────────────────");
+			lines.push(flow.hierarchy.root.title || flow.hierarchy.root.url);
+			this.renderHierarchy(flow.hierarchy.root, lines, "");
+			lines.push("");
+		}
 		lines.push("───────────────────────────────────────────────");
 		lines.push("USER FLOWS:");
 		lines.push("───────────────────────────────────────────────");
@@ -34,6 +87,31 @@ export class TextFlowGenerator {
 		return lines.join("\n");
 	}
 
+	/**
+	 * Helper: Draw a hierarchy node's children as a tree
+	 */
+	private renderHierarchy(
+		node: HierarchyNode,
+		lines: string[],
+		prefix: string,
+	): void {
+		const MAX_CHILDREN = 15;
+		const shown = node.children.slice(0, MAX_CHILDREN);
+		const hidden = node.children.length - shown.length;
+
+		shown.forEach((child, index) => {
+			const isLast = index === shown.length - 1 && hidden === 0;
+			lines.push(
+				`${prefix}${isLast ? "└─ " : "├─ "}${child.title || child.url}`,
+			);
+			this.renderHierarchy(child, lines, prefix + (isLast ? "   " : "│  "));
+		});
+
+		if (hidden > 0) {
+			lines.push(`${prefix}└─ … ${hidden} more`);
+		}
+	}
+
 	/**
 	 * Helper: Trace path from a node recursively
 	 */
@@ -20,6 +20,15 @@ export interface FlowVisualizationOutput {
 		maxDepth: number;
 		totalEdges: number;
 	};
+	skippedUrls: SkippedUrlEntry[];
+	traps: TrapFamilyEntry[];
+	orphanPages: { url: string; title: string }[];
+	brokenLinks: BrokenLinkEntry[];
+	personas?: PersonaSummaryEntry[];
+	devices?: DeviceSummaryEntry[];
+	changes?: ChangeReportEntry;
+	apiDependencies?: ApiDependenciesEntry;
+	hierarchy?: HierarchyEntry;
 }
 
 export interface VisualizationNode {
@@ -29,6 +38,14 @@ export interface VisualizationNode {
 	type: string;
 	depth: number;
 	pageTitle: string;
+	aliases: string[];
+	template?: string;
+	memberCount?: number;
+	exampleUrls?: string[];
+	personas?: string[];
+	devices?: string[];
+	thumbnail?: string;
+	screenshot?: string;
 }
 
 export interface VisualizationEdge {
@@ -37,4 +54,85 @@ export interface VisualizationEdge {
 	target: string;
 	weight: number;
 	label?: string;
+	kind: string;
+	personas?: string[];
+	devices?: string[];
+}
+
+export interface SkippedUrlEntry {
+	url: string;
+	reason: string;
+	foundOn?: string;
+}
+
+export interface TrapFamilyEntry {
+	kind: string;
+	pattern: string;
+	suppressedCount: number;
+	examples: string[];
+}
+
+export interface BrokenLinkEntry {
+	url: string;
+	status?: number;
+	state: string;
+	error?: string;
+	sources: { url: string; title: string; anchorText: string }[];
+}
+
+export interface ApiEndpointEntry {
+	id: string;
+	method: string;
+	template: string;
+	callCount: number;
+	statuses: number[];
+	failedCount: number;
+	averageDurationMs?: number;
+	pages: string[];
+}
+
+export interface ApiDependenciesEntry {
+	endpoints: ApiEndpointEntry[];
+	pages: { url: string; title: string; endpoints: string[] }[];
+}
+
+export interface HierarchyNodeEntry {
+	url: string;
+	title: string;
+	source: "root" | "breadcrumb" | "path";
+	children: HierarchyNodeEntry[];
+}
+
+export interface HierarchyEntry {
+	root: HierarchyNodeEntry;
+	conflicts: {
+		url: string;
+		parent: string;
+		resolvedBy: "breadcrumb" | "path";
+		alternatives: string[];
+	}[];
+}
+
+export interface ChangeReportEntry {
+	added: string[];
+	changed: string[];
+	removed: string[];
+	unchanged: number;
+}
+
+export interface PersonaSummaryEntry {
+	name: string;
+	pageCount: number;
+	exclusivePages: { url: string; title: string }[];
+	changes?: ChangeReportEntry;
+}
+
+export interface DeviceSummaryEntry {
+	name: string;
+	deviceClass: string;
+	viewport: { width: number; height: number };
+	pageCount: number;
+	exclusivePages: { url: string; title: string }[];
+	exclusiveEdges: { source: string; target: string; kind: string }[];
+	changes?: ChangeReportEntry;
 }
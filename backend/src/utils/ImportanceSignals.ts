@@ -0,0 +1,43 @@
+/**
+ * URL and text patterns that hint at how important a page is to user flows
+ *
+ * Shared by the flow analyzer, which scores crawled pages, and the best-first
+ * crawl frontier, which scores links before their pages are fetched.
+ */
+export class ImportanceSignals {
+	/**
+	 * Score URL patterns indicating importance (home, auth, checkout...)
+	 */
+	static scoreUrl(url: string): number {
+		const urlLower = url.toLowerCase();
+		let score = 0;
+
+		if (urlLower.match(/\/(home|index|dashboard|main)$/)) score += 100;
+		if (urlLower.match(/\/(login|signup|register|auth)/)) score += 80;
+		if (urlLower.match(/\/(checkout|cart|payment|order)/)) score += 80;
+		if (urlLower.match(/\/(product|item|detail)/)) score += 60;
+		if (urlLower.match(/\/(contact|support|help)/)) score += 50;
+		if (urlLower.match(/\/(profile|account|settings)/)) score += 60;
+		if (urlLower.match(/\/(search|results)/)) score += 50;
+		if (urlLower.match(/\/(category|collection|browse)/)) score += 45;
+		if (urlLower.match(/\/(about|info)/)) score += 35;
+
+		return score;
+	}
+
+	/**
+	 * Score keywords in a page title or link text
+	 */
+	static scoreText(text: string): number {
+		const textLower = text.toLowerCase();
+		let score = 0;
+
+		if (textLower.match(/(home|dashboard|main|overview)/)) score += 40;
+		if (textLower.match(/(login|sign in|register|sign up)/)) score += 40;
+		if (textLower.match(/(checkout|cart|payment)/)) score += 40;
+		if (textLower.match(/(product|item|detail)/)) score += 30;
+		if (textLower.match(/(category|collection)/)) score += 25;
+
+		return score;
+	}
+}
@@ -0,0 +1,20 @@
+import * as cheerio from "cheerio";
+
+/**
+ * Hints in fetched HTML about whether a page needs a browser to render
+ *
+ * The "auto" render mode fetches every page over plain HTTP and only hands
+ * the pages that look client-rendered to the browser.
+ */
+export class RenderSignals {
+	/**
+	 * Server-rendered HTML has links and text; an SPA shell has neither
+	 */
+	static looksClientRendered(html: string): boolean {
+		const $ = cheerio.load(html);
+		if ($("a[href]").length === 0) return true;
+
+		$("script, style, noscript, template").remove();
+		return $("body").text().replace(/\s+/g, " ").trim().length < 100;
+	}
+}
@@ -1,28 +1,70 @@
+/**
+ * Declarative canonicalization rules applied on top of the basic normalization
+ */
+export interface UrlCanonicalizationRules {
+	// Query parameters to remove; "*" matches any characters (e.g. "utm_*")
+	dropParams?: string[];
+	// When set, every other query parameter is removed
+	keepOnlyParams?: string[];
+	lowercasePath?: boolean;
+	stripIndexFiles?: boolean;
+	foldWww?: boolean;
+	foldHttps?: boolean;
+	// Fragments kept as routes: "auto" keeps #/ and #! routes, "always" keeps
+	// every fragment, "never" strips them all (defaults to "auto")
+	hashRouting?: "auto" | "always" | "never";
+}
+
 /**
  * Utility functions for URL manipulation and normalization
  */
 export class UrlUtils {
 	/**
-	 * Normalize URL by removing fragments, trailing slashes, and sorting query params
+	 * Normalize URL by removing in-page fragments, trailing slashes, and sorting
+	 * query params, then apply any configured canonicalization rules
 	 */
-	static normalize(url: string): string {
+	static normalize(url: string, rules: UrlCanonicalizationRules = {}): string {
 		try {
 			const parsed = new URL(url);
 
-			// Remove fragment
-			parsed.hash = "";
+			// Keep hash routes (#/dashboard), remove plain in-page anchors
+			parsed.hash = UrlUtils.getHashRoute(parsed.hash, rules) ?? "";
 
-			// Sort query parameters for consistency
-			const sortedParams = Array.from(parsed.searchParams.entries()).sort(
-				([a], [b]) => a.localeCompare(b),
-			);
+			// Fold http:// into https://
+			if (rules.foldHttps && parsed.protocol === "http:") {
+				parsed.protocol = "https:";
+				if (parsed.port === "80") parsed.port = "";
+			}
+
+			// Fold www.example.com into example.com
+			if (rules.foldWww && parsed.hostname.startsWith("www.")) {
+				parsed.hostname = parsed.hostname.slice(4);
+			}
+
+			// Drop unwanted params, then sort the rest for consistency
+			const sortedParams = Array.from(parsed.searchParams.entries())
+				.filter(([key]) => UrlUtils.shouldKeepParam(key, rules))
+				.sort(([a], [b]) => a.localeCompare(b));
 			parsed.search = "";
 			sortedParams.forEach(([key, value]) => {
 				parsed.searchParams.append(key, value);
 			});
 
-			// Remove trailing slash
 			let pathname = parsed.pathname;
+
+			// Strip index.html, default.aspx and friends
+			if (rules.stripIndexFiles) {
+				pathname = pathname.replace(
+					/\/(index|default)\.(html?|php|aspx?|jsp)$/i,
+					"/",
+				);
+			}
+
+			if (rules.lowercasePath) {
+				pathname = pathname.toLowerCase();
+			}
+
+			// Remove trailing slash
 			if (pathname.endsWith("/") && pathname.length > 1) {
 				pathname = pathname.slice(0, -1);
 			}
@@ -34,6 +76,96 @@ export class UrlUtils {
 		}
 	}
 
+	/**
+	 * URL to request for a discovered link: exactly as found, minus plain
+	 * in-page anchors. Canonicalization (case, www, https folding) only
+	 * decides identity; the folded form may not exist on the server.
+	 */
+	static toRequestUrl(
+		url: string,
+		rules: UrlCanonicalizationRules = {},
+	): string {
+		try {
+			const parsed = new URL(url);
+			if (UrlUtils.getHashRoute(parsed.hash, rules) === null) {
+				parsed.hash = "";
+			}
+			return parsed.href;
+		} catch {
+			return url;
+		}
+	}
+
+	/**
+	 * Extract the normalized client-side route from a URL fragment, or null when
+	 * the fragment is a plain in-page anchor, e.g. "#/users/" -> "#/users"
+	 */
+	static getHashRoute(
+		hash: string,
+		rules: UrlCanonicalizationRules = {},
+	): string | null {
+		const mode = rules.hashRouting ?? "auto";
+		const fragment = hash.replace(/^#/, "");
+		if (mode === "never" || !fragment) return null;
+
+		const isRoute = fragment.startsWith("/") || fragment.startsWith("!");
+		if (!isRoute && mode !== "always") return null;
+
+		// Split off the route's own query string before trimming slashes
+		const queryIndex = fragment.indexOf("?");
+		const routePath =
+			queryIndex === -1 ? fragment : fragment.substring(0, queryIndex);
+		const routeQuery = queryIndex === -1 ? "" : fragment.substring(queryIndex);
+		const trimmedPath = routePath.replace(/\/+$/, "");
+
+		// "#/" and "#!/" are the app root, same as no fragment at all
+		if ((trimmedPath === "" || trimmedPath === "!") && !routeQuery) {
+			return null;
+		}
+
+		return `#${trimmedPath || "/"}${routeQuery}`;
+	}
+
+	/**
+	 * Decide whether a query parameter survives the canonicalization rules
+	 */
+	private static shouldKeepParam(
+		name: string,
+		rules: UrlCanonicalizationRules,
+	): boolean {
+		if (
+			rules.keepOnlyParams &&
+			rules.keepOnlyParams.length > 0 &&
+			!rules.keepOnlyParams.some((pattern) =>
+				UrlUtils.matchesParamPattern(name, pattern),
+			)
+		) {
+			return false;
+		}
+
+		if (
+			rules.dropParams &&
+			rules.dropParams.some((pattern) =>
+				UrlUtils.matchesParamPattern(name, pattern),
+			)
+		) {
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Case-insensitive parameter name match with "*" wildcards
+	 */
+	private static matchesParamPattern(name: string, pattern: string): boolean {
+		const source = pattern
+			.split("*")
+			.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+			.join(".*");
+		return new RegExp(`^${source}$`, "i").test(name);
+	}
+
 	/**
 	 * Check if URL is internal to the base domain
 	 */
@@ -61,14 +193,74 @@ export class UrlUtils {
 	}
 
 	/**
-	 * Extract path segments for categorization
+	 * Extract path segments for categorization, including hash route segments
 	 */
 	static getPathSegments(url: string): string[] {
 		try {
 			const urlObj = new URL(url);
-			return urlObj.pathname.split("/").filter((segment) => segment.length > 0);
+			const hashPath = urlObj.hash.replace(/^#!?/, "").split("?")[0];
+			return `${urlObj.pathname}/${hashPath}`
+				.split("/")
+				.filter((segment) => segment.length > 0);
 		} catch {
 			return [];
 		}
 	}
+
+	/**
+	 * Classify a path segment or query value that looks like an identifier
+	 * Returns the placeholder to use in templates, or null for literal segments
+	 */
+	static classifySegment(segment: string): string | null {
+		if (/^\d+$/.test(segment)) return ":id";
+		if (
+			/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+				segment,
+			)
+		) {
+			return ":uuid";
+		}
+		if (/^[0-9a-f]{16,}$/i.test(segment)) return ":hash";
+		// Prefixed identifiers such as "sku-10432" or "INV_2024001"
+		if (/^[a-z]*[-_]?\d{3,}$/i.test(segment)) return ":id";
+		return null;
+	}
+
+	/**
+	 * Build a URL template by replacing identifier-like path segments and
+	 * query values with placeholders, e.g. /product/123?id=9 -> /product/:id?id=:id
+	 */
+	static getUrlTemplate(url: string): string {
+		try {
+			const urlObj = new URL(url);
+			const path = urlObj.pathname
+				.split("/")
+				.map((segment) =>
+					segment ? (UrlUtils.classifySegment(segment) ?? segment) : segment,
+				)
+				.join("/");
+
+			const query = Array.from(urlObj.searchParams.entries())
+				.sort(([a], [b]) => a.localeCompare(b))
+				.map(
+					([key, value]) =>
+						`${key}=${UrlUtils.classifySegment(value) ?? value}`,
+				)
+				.join("&");
+
+			// Hash routes are templated like paths: #/order/42 -> #/order/:id
+			const hash = urlObj.hash
+				.split("/")
+				.map((segment, index) =>
+					index > 0 && segment
+						? (UrlUtils.classifySegment(segment) ?? segment)
+						: segment,
+				)
+				.join("/");
+
+			return `${urlObj.origin}${path}${query ? `?${query}` : ""}${hash}`;
+		} catch {
+			return url;
+		}
+	}
 }
@@ -0,0 +1,65 @@
+import { EventEmitter } from "events";
+import { Page, Request } from "playwright";
+import { ApiRecorder } from "../src/crawler/ApiRecorder";
+
+/**
+ * Just enough of a Playwright request for the recorder
+ */
+function fakeRequest(url: string, status: number, delayMs: number): Request {
+	return {
+		url: () => url,
+		method: () => "GET",
+		resourceType: () => "fetch",
+		timing: () => ({ responseEnd: 12 }),
+		response: () =>
+			new Promise((resolve) =>
+				setTimeout(() => resolve({ status: () => status }), delayMs),
+			),
+	} as unknown as Request;
+}
+
+describe("ApiRecorder", () => {
+	it("waits for slow responses before collecting", async () => {
+		const page = new EventEmitter();
+		const recorder = new ApiRecorder("https://shop.test/");
+		recorder.attach(page as unknown as Page);
+
+		page.emit(
+			"requestfinished",
+			fakeRequest("https://api.shop.test/cart?id=1", 200, 50),
+		);
+		page.emit(
+			"requestfinished",
+			fakeRequest("https://tracker.example/beacon", 204, 0),
+		);
+
+		const calls = await recorder.collect(page as unknown as Page);
+		expect(calls).toEqual([
+			{
+				method: "GET",
+				url: "https://api.shop.test/cart?id=1",
+				template: "https://api.shop.test/cart",
+				resourceType: "fetch",
+				status: 200,
+				durationMs: 12,
+			},
+		]);
+	});
+
+	it("keeps to the per-page budget while responses are pending", async () => {
+		const page = new EventEmitter();
+		const recorder = new ApiRecorder("https://shop.test/", {
+			maxCallsPerPage: 2,
+		});
+		recorder.attach(page as unknown as Page);
+
+		[1, 2, 3].forEach((id) =>
+			page.emit(
+				"requestfinished",
+				fakeRequest(`https://shop.test/api/items/${id}`, 200, 10),
+			),
+		);
+
+		expect(await recorder.collect(page as unknown as Page)).toHaveLength(2);
+	});
+});
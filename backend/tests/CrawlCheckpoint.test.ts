@@ -0,0 +1,55 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { CrawlCheckpoint } from "../src/crawler/CrawlCheckpoint";
+import { TrapDetector } from "../src/crawler/TrapDetector";
+
+describe("CrawlCheckpoint", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), "checkpoint-"));
+	});
+
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	const baseState = {
+		startUrl: "https://shop.test/",
+		completed: false,
+		visitedUrls: ["https://shop.test/"],
+		pending: [{ url: "https://shop.test/cart", depth: 1 }],
+		pages: [],
+		skippedUrls: [],
+		aliasUrls: [] as [string, string][],
+		sitemapUrls: [],
+	};
+
+	it("round-trips the crawl state including trap counters", async () => {
+		const detector = new TrapDetector({ maxUrlsPerTemplate: 1 });
+		detector.check("https://shop.test/item/1");
+		detector.check("https://shop.test/item/2");
+
+		const checkpoint = new CrawlCheckpoint(dir);
+		await checkpoint.save({ ...baseState, trapDetector: detector.getState() });
+		const loaded = await new CrawlCheckpoint(dir).load();
+
+		expect(loaded).toMatchObject(baseState);
+		expect(loaded?.trapDetector).toEqual(detector.getState());
+	});
+
+	it("returns null when there is no checkpoint", async () => {
+		expect(await new CrawlCheckpoint(dir).load()).toBeNull();
+	});
+
+	it("ignores checkpoints from another version", async () => {
+		jest.spyOn(console, "warn").mockImplementation(() => {});
+		await fs.writeFile(
+			path.join(dir, "checkpoint.json"),
+			JSON.stringify({ ...baseState, version: 99 }),
+		);
+		expect(await new CrawlCheckpoint(dir).load()).toBeNull();
+		jest.restoreAllMocks();
+	});
+});
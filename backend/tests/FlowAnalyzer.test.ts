@@ -0,0 +1,229 @@
+import { FlowAnalyzer } from "../src/analyzer/FlowAnalyzer";
+import { EdgeKind } from "../src/analyzer/types";
+import {
+	LinkPosition,
+	LinkProminence,
+	PageForm,
+	PageMetadata,
+} from "../src/crawler/types";
+
+const SITE = "https://shop.test";
+
+function form(action: string, position = LinkPosition.CONTENT): PageForm {
+	return {
+		action: `${SITE}${action}`,
+		method: "POST",
+		fields: [{ name: "email", type: "email", required: true }],
+		submitText: "Go",
+		position,
+	};
+}
+
+function page(path: string, links: string[], forms: PageForm[]): PageMetadata {
+	return {
+		url: `${SITE}${path}`,
+		title: path,
+		depth: path === "/" ? 0 : 1,
+		timestamp: 0,
+		status: 200,
+		outgoingLinks: links.map((href) => ({
+			href: `${SITE}${href}`,
+			text: href,
+			position: LinkPosition.CONTENT,
+			context: "",
+		})),
+		forms,
+	};
+}
+
+describe("FlowAnalyzer form edges", () => {
+	beforeEach(() => {
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("ignores forms submitted from most pages and site chrome forms", () => {
+		const newsletter = form("/subscribe");
+		const pages = [
+			page("/", ["/a", "/b", "/cart"], [newsletter]),
+			page("/a", ["/b"], [newsletter]),
+			page("/b", ["/a"], [newsletter]),
+			page("/cart", [], [newsletter, form("/checkout")]),
+			page("/checkout", [], [form("/login", LinkPosition.HEADER)]),
+			page("/subscribe", [], []),
+			page("/login", [], []),
+		];
+
+		const flow = new FlowAnalyzer().analyze(
+			new Map(pages.map((entry) => [entry.url, entry])),
+			`${SITE}/`,
+		);
+
+		const formEdges = flow.edges
+			.filter((edge) => edge.kind === EdgeKind.FORM)
+			.map((edge) => `${edge.source} -> ${edge.target}`);
+		expect(formEdges).toEqual([`${SITE}/cart -> ${SITE}/checkout`]);
+	});
+});
+
+describe("FlowAnalyzer canonicalization", () => {
+	beforeEach(() => {
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("merges the links and forms of pages that share a canonical URL", () => {
+		const pages = [
+			page("/", ["/Shop", "/about"], []),
+			page("/Shop", ["/cart"], []),
+			{ ...page("/shop", ["/cart", "/checkout"], [form("/search")]), depth: 2 },
+			page("/about", [], []),
+			page("/cart", [], []),
+			page("/checkout", [], []),
+			page("/search", [], []),
+		];
+
+		const flow = new FlowAnalyzer().analyze(
+			new Map(pages.map((entry) => [entry.url, entry])),
+			`${SITE}/`,
+			{ canonicalization: { lowercasePath: true } },
+		);
+
+		const shop = flow.nodes.find((node) => node.id === `${SITE}/shop`)!;
+		expect(shop.metadata.depth).toBe(1);
+		expect(shop.metadata.aliases).toEqual([`${SITE}/Shop`]);
+		expect(
+			flow.edges
+				.filter((edge) => edge.source === `${SITE}/shop`)
+				.map((edge) => `${edge.target} ${edge.kind}`)
+				.sort(),
+		).toEqual([
+			`${SITE}/cart ${EdgeKind.LINK}`,
+			`${SITE}/checkout ${EdgeKind.LINK}`,
+			`${SITE}/search ${EdgeKind.FORM}`,
+		]);
+	});
+});
+
+describe("FlowAnalyzer link prominence", () => {
+	beforeEach(() => {
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	const rendered = (
+		overrides: Partial<LinkProminence> = {},
+	): LinkProminence => ({
+		x: 0,
+		y: 0,
+		width: 40,
+		height: 16,
+		visible: true,
+		aboveFold: false,
+		fontSize: 16,
+		buttonStyled: false,
+		...overrides,
+	});
+
+	it("weights edges by how prominently their links render", () => {
+		const home = page("/", ["/pricing", "/pricing", "/about"], []);
+		home.outgoingLinks[0] = {
+			...home.outgoingLinks[0],
+			text: "plans",
+			prominence: rendered(),
+		};
+		home.outgoingLinks[1] = {
+			...home.outgoingLinks[1],
+			text: "Start free trial",
+			prominence: rendered({
+				width: 200,
+				height: 100,
+				aboveFold: true,
+				fontSize: 24,
+				buttonStyled: true,
+			}),
+		};
+		home.outgoingLinks[2] = {
+			...home.outgoingLinks[2],
+			prominence: rendered({ visible: false }),
+		};
+		const pages = [home, page("/pricing", [], []), page("/about", [], [])];
+
+		const flow = new FlowAnalyzer().analyze(
+			new Map(pages.map((entry) => [entry.url, entry])),
+			`${SITE}/`,
+		);
+
+		const edgeTo = (path: string) =>
+			flow.edges.find((edge) => edge.target === `${SITE}${path}`)!;
+		// 1.03 for the inline link, 4 for the hero button
+		expect(edgeTo("/pricing")).toMatchObject({
+			label: "Start free trial",
+			weight: 5.03,
+		});
+		expect(edgeTo("/about").weight).toBe(0.25);
+	});
+
+	it("counts unmeasured links once each, labelled by the shortest text", () => {
+		const home = page("/", ["/pricing", "/pricing"], []);
+		home.outgoingLinks[0].text = "See our pricing";
+		home.outgoingLinks[1].text = "Pricing";
+		const pages = [home, page("/pricing", [], [])];
+
+		const flow = new FlowAnalyzer().analyze(
+			new Map(pages.map((entry) => [entry.url, entry])),
+			`${SITE}/`,
+		);
+
+		expect(flow.edges).toEqual([
+			expect.objectContaining({ label: "Pricing", weight: 2 }),
+		]);
+	});
+});
+
+describe("FlowAnalyzer link positions", () => {
+	beforeEach(() => {
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("weighs calls to action up and leaves breadcrumbs and pagination out", () => {
+		const home = page("/", ["/trial", "/shoes"], []);
+		home.outgoingLinks[0].position = LinkPosition.CTA;
+		const shoes = page("/shoes", ["/", "/shoes/2", "/trial"], []);
+		shoes.outgoingLinks[0].position = LinkPosition.BREADCRUMB;
+		shoes.outgoingLinks[1].position = LinkPosition.PAGINATION;
+		const pages = [
+			home,
+			shoes,
+			page("/shoes/2", [], []),
+			page("/trial", [], []),
+		];
+
+		const flow = new FlowAnalyzer().analyze(
+			new Map(pages.map((entry) => [entry.url, entry])),
+			`${SITE}/`,
+		);
+
+		expect(
+			flow.edges
+				.map(
+					(edge) =>
+						`${edge.source.replace(SITE, "")} -> ${edge.target.replace(SITE, "")} ${edge.weight}`,
+				)
+				.sort(),
+		).toEqual(["/ -> /shoes 1", "/ -> /trial 2", "/shoes -> /trial 1"]);
+	});
+});
@@ -0,0 +1,274 @@
+import {
+	FlowComparator,
+	FlowComparison,
+	FlowVariant,
+} from "../src/analyzer/FlowComparator";
+import { EdgeKind, FlowEdge, NodeType, UserFlow } from "../src/analyzer/types";
+import { LinkPosition, PageMetadata } from "../src/crawler/types";
+
+const SITE = "https://shop.test";
+
+function page(
+	path: string,
+	links: string[],
+	formActions: string[] = [],
+): PageMetadata {
+	return {
+		url: `${SITE}${path}`,
+		title: path,
+		depth: path === "/" ? 0 : 1,
+		timestamp: 0,
+		outgoingLinks: links.map((href) => ({
+			href: `${SITE}${href}`,
+			text: href,
+			position: LinkPosition.CONTENT,
+			context: "",
+		})),
+		forms: formActions.map((action) => ({
+			action: `${SITE}${action}`,
+			method: "POST",
+			fields: [],
+			submitText: "Go",
+			position: LinkPosition.CONTENT,
+		})),
+	};
+}
+
+function edge(source: string, target: string, kind = EdgeKind.LINK): FlowEdge {
+	return {
+		source: `${SITE}${source}`,
+		target: `${SITE}${target}`,
+		weight: 1,
+		kind,
+	};
+}
+
+function variant(
+	name: string,
+	pages: PageMetadata[],
+	edges: FlowEdge[],
+	nodeIds = pages.map((entry) => entry.url),
+): FlowVariant {
+	const flow: UserFlow = {
+		nodes: nodeIds.map((id) => ({
+			id,
+			label: id,
+			url: id,
+			type: NodeType.CONTENT,
+			metadata: {
+				depth: 0,
+				pageTitle: id,
+				pathSegments: [],
+				aliases: [],
+			},
+		})),
+		edges,
+		orphanPages: [],
+		brokenLinks: [],
+		metadata: {
+			startUrl: `${SITE}/`,
+			totalPages: pages.length,
+			noiseFiltered: 0,
+			crawlTimestamp: 0,
+		},
+	};
+	return {
+		name,
+		flow,
+		pages: new Map(pages.map((entry) => [entry.url, entry])),
+	};
+}
+
+describe("FlowComparator", () => {
+	beforeEach(() => {
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	const variantsOf =
+		(comparison: FlowComparison) =>
+		(source: string, target: string, kind = EdgeKind.LINK) =>
+			comparison.edgeVariants.get(
+				FlowComparator.edgeKey(edge(source, target, kind)),
+			);
+
+	it("tags edges from each variant's crawled pages, not only its flow", () => {
+		const desktop = variant(
+			"desktop",
+			[page("/", ["/deals", "/cart"]), page("/cart", [], ["/checkout"])],
+			[edge("/", "/deals"), edge("/cart", "/checkout", EdgeKind.FORM)],
+		);
+		// The mobile flow trimmed both edges, but its pages still reach them
+		const mobile = variant(
+			"mobile",
+			[page("/", ["/deals"]), page("/cart", [], ["/checkout"])],
+			[],
+		);
+
+		const edgeVariants = variantsOf(
+			new FlowComparator().compare([desktop, mobile]),
+		);
+		expect(edgeVariants("/", "/deals")).toEqual(["desktop", "mobile"]);
+		expect(edgeVariants("/cart", "/checkout", EdgeKind.FORM)).toEqual([
+			"desktop",
+			"mobile",
+		]);
+	});
+
+	it("leaves edges a variant's pages never link untagged for it", () => {
+		const desktop = variant(
+			"desktop",
+			[page("/", ["/cart"])],
+			[edge("/", "/cart")],
+		);
+		const mobile = variant("mobile", [page("/", ["/menu"])], []);
+
+		const edgeVariants = variantsOf(
+			new FlowComparator().compare([desktop, mobile]),
+		);
+		expect(edgeVariants("/", "/cart")).toEqual(["desktop"]);
+	});
+
+	it("tags nodes for every variant that crawled the page", () => {
+		const comparison = new FlowComparator().compare([
+			variant("desktop", [page("/", []), page("/about", [])], []),
+			variant("mobile", [page("/", [])], []),
+		]);
+		expect(comparison.nodeVariants.get(`${SITE}/`)).toEqual([
+			"desktop",
+			"mobile",
+		]);
+		expect(comparison.nodeVariants.get(`${SITE}/about`)).toEqual(["desktop"]);
+		expect(comparison.summaries[0].exclusivePages).toEqual([
+			{ url: `${SITE}/about`, title: "/about" },
+		]);
+	});
+
+	it("reports only edges no other variant's pages reach as exclusive", () => {
+		const comparison = new FlowComparator().compare([
+			variant(
+				"desktop",
+				[page("/", ["/deals", "/cart"])],
+				[edge("/", "/deals"), edge("/", "/cart")],
+			),
+			// Mobile exposes /deals behind its menu but never links /cart
+			variant("mobile", [page("/", ["/deals", "/menu"])], []),
+		]);
+
+		expect(FlowComparator.exclusiveEdges(comparison, "desktop")).toEqual([
+			{
+				source: `${SITE}/`,
+				target: `${SITE}/cart`,
+				kind: EdgeKind.LINK,
+			},
+		]);
+		expect(FlowComparator.exclusiveEdges(comparison, "mobile")).toEqual([]);
+	});
+
+	it("keeps each variant's incremental change report on its summary", () => {
+		const changes = {
+			added: [`${SITE}/new`],
+			changed: [],
+			removed: [],
+			unchanged: 1,
+		};
+		const comparison = new FlowComparator().compare([
+			{ ...variant("desktop", [page("/", [])], []), changes },
+			variant("mobile", [page("/", [])], []),
+		]);
+		expect(comparison.summaries.map((summary) => summary.changes)).toEqual([
+			changes,
+			undefined,
+		]);
+	});
+
+	it("reports no exclusive edges for a single variant", () => {
+		const comparison = new FlowComparator().compare([
+			variant("desktop", [page("/", ["/cart"])], [edge("/", "/cart")]),
+		]);
+		expect(FlowComparator.exclusiveEdges(comparison, "desktop")).toEqual([]);
+	});
+
+	describe("with clustering", () => {
+		const template = `${SITE}/product/:id`;
+		const options = {
+			canonicalization: { lowercasePath: true },
+			clustering: { enabled: true, minClusterSize: 3 },
+		};
+		const products = (ids: number[]) => ids.map((id) => `/product/${id}`);
+
+		it("tags personas that crawled different members of one template", () => {
+			// Alone, the guest crawl has too few members to form the cluster
+			const member = variant(
+				"member",
+				[
+					page("/", products([1, 2, 3])),
+					...products([1, 2, 3]).map((path) => page(path, [], ["/cart"])),
+				],
+				[edge("/", "/product/:id")],
+				[`${SITE}/`, template],
+			);
+			const guest = variant(
+				"guest",
+				[
+					page("/", products([4, 5])),
+					...products([4, 5]).map((path) => page(path, [], ["/cart"])),
+				],
+				[edge("/", "/product/4"), edge("/", "/product/5")],
+			);
+
+			const comparison = new FlowComparator().compare([member, guest], options);
+			const edgeVariants = variantsOf(comparison);
+
+			expect(comparison.nodeVariants.get(template)).toEqual([
+				"member",
+				"guest",
+			]);
+			expect(edgeVariants("/", "/product/:id")).toEqual(["member", "guest"]);
+			expect(
+				comparison.summaries.map((summary) => summary.exclusivePages),
+			).toEqual([[], []]);
+		});
+
+		it("reports only genuinely device-exclusive links", () => {
+			const desktop = variant(
+				"desktop",
+				[
+					page("/", [...products([1, 2, 4]), "/deals", "/about"]),
+					...products([1, 2, 4]).map((path) => page(path, [])),
+					page("/deals", []),
+					page("/about", []),
+				],
+				[edge("/", "/product/:id"), edge("/", "/deals"), edge("/", "/about")],
+				[`${SITE}/`, template, `${SITE}/deals`, `${SITE}/about`],
+			);
+			// Mobile reaches other products and the same page under another case
+			const mobile = variant(
+				"mobile",
+				[
+					page("/", [...products([3]), "/About"]),
+					page("/product/3", []),
+					page("/About", []),
+				],
+				[],
+			);
+
+			const comparison = new FlowComparator().compare(
+				[desktop, mobile],
+				options,
+			);
+
+			expect(FlowComparator.exclusiveEdges(comparison, "desktop")).toEqual([
+				{ source: `${SITE}/`, target: `${SITE}/deals`, kind: EdgeKind.LINK },
+			]);
+			expect(FlowComparator.exclusiveEdges(comparison, "mobile")).toEqual([]);
+			expect(comparison.summaries[0].exclusivePages).toEqual([
+				{ url: `${SITE}/deals`, title: "/deals" },
+			]);
+			expect(comparison.summaries[1].exclusivePages).toEqual([]);
+		});
+	});
+});
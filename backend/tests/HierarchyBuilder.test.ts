@@ -0,0 +1,119 @@
+import { HierarchyBuilder } from "../src/analyzer/HierarchyBuilder";
+import { HierarchyNode } from "../src/analyzer/types";
+import { LinkPosition, PageMetadata, PageState } from "../src/crawler/types";
+
+const SITE = "https://shop.test";
+
+function page(
+	path: string,
+	breadcrumbs: string[] = [],
+	state?: PageState,
+): PageMetadata {
+	return {
+		url: `${SITE}${path}`,
+		title: path,
+		depth: 1,
+		timestamp: 0,
+		state,
+		outgoingLinks: breadcrumbs.map((crumb) => ({
+			href: `${SITE}${crumb}`,
+			text: crumb,
+			position: LinkPosition.BREADCRUMB,
+			context: "",
+		})),
+	};
+}
+
+function build(...list: PageMetadata[]) {
+	return new HierarchyBuilder().build(
+		new Map(list.map((entry) => [entry.url, entry])),
+		`${SITE}/`,
+	);
+}
+
+/**
+ * Child path -> "parent path (source)" for every node below the root
+ */
+function parentsOf(root: HierarchyNode): Record<string, string> {
+	const parents: Record<string, string> = {};
+	const walk = (node: HierarchyNode) =>
+		node.children.forEach((child) => {
+			parents[child.url.replace(SITE, "")] =
+				`${node.url.replace(SITE, "")} (${child.source})`;
+			walk(child);
+		});
+	walk(root);
+	return parents;
+}
+
+describe("HierarchyBuilder", () => {
+	beforeEach(() => {
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("hangs pages under their closest crawled path ancestor", () => {
+		const { root, conflicts } = build(
+			page("/"),
+			page("/shop"),
+			page("/shop/shoes/boot"),
+			page("/shop?sort=price"),
+			page("/about"),
+		);
+
+		expect(root.source).toBe("root");
+		expect(parentsOf(root)).toEqual({
+			"/about": "/ (path)",
+			"/shop": "/ (path)",
+			"/shop/shoes/boot": "/shop (path)",
+			"/shop?sort=price": "/shop (path)",
+		});
+		expect(conflicts).toEqual([]);
+	});
+
+	it("lets breadcrumbs override the path and records the disagreement", () => {
+		const { root, conflicts } = build(
+			page("/"),
+			page("/shop"),
+			page("/sale"),
+			page("/shop/boot", ["/", "/sale"]),
+		);
+
+		expect(parentsOf(root)["/shop/boot"]).toBe("/sale (breadcrumb)");
+		expect(conflicts).toEqual([
+			{
+				url: `${SITE}/shop/boot`,
+				parent: `${SITE}/sale`,
+				resolvedBy: "breadcrumb",
+				alternatives: [`${SITE}/shop`],
+			},
+		]);
+	});
+
+	it("breaks cycles when breadcrumbs point at each other", () => {
+		const { root } = build(
+			page("/"),
+			page("/a", ["/a/b"]),
+			page("/a/b", ["/a"]),
+		);
+
+		// /a is placed first and follows its crumb; /a/b would close the loop
+		expect(parentsOf(root)).toEqual({
+			"/a": "/a/b (breadcrumb)",
+			"/a/b": "/ (path)",
+		});
+	});
+
+	it("leaves out pages that failed to load", () => {
+		const { root } = build(
+			page("/"),
+			page("/gone", [], PageState.HTTP_ERROR),
+			page("/gone/child"),
+		);
+
+		expect(parentsOf(root)).toEqual({ "/gone/child": "/ (path)" });
+	});
+});
@@ -0,0 +1,127 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { IncrementalState } from "../src/crawler/IncrementalState";
+import { PageMetadata } from "../src/crawler/types";
+
+function page(url: string, extra: Partial<PageMetadata> = {}): PageMetadata {
+	return {
+		url,
+		title: url,
+		depth: 1,
+		timestamp: 0,
+		outgoingLinks: [],
+		...extra,
+	};
+}
+
+function pagesOf(...list: PageMetadata[]): Map<string, PageMetadata> {
+	return new Map(list.map((entry) => [entry.url, entry]));
+}
+
+describe("IncrementalState", () => {
+	it("sends the previous validators as conditional headers", () => {
+		const state = new IncrementalState(
+			pagesOf(
+				page("https://shop.test/", {
+					etag: '"abc"',
+					lastModified: "Mon, 05 Oct 2026 10:00:00 GMT",
+				}),
+				page("https://shop.test/about", { etag: '"def"' }),
+			),
+		);
+
+		expect(state.getConditionalHeaders("https://shop.test/")).toEqual({
+			"if-none-match": '"abc"',
+			"if-modified-since": "Mon, 05 Oct 2026 10:00:00 GMT",
+		});
+		expect(state.getConditionalHeaders("https://shop.test/about")).toEqual({
+			"if-none-match": '"def"',
+		});
+	});
+
+	it("revalidates only pages that loaded fine and carry validators", () => {
+		const state = new IncrementalState(
+			pagesOf(
+				page("https://shop.test/gone", { etag: '"a"', status: 404 }),
+				page("https://shop.test/broken", { etag: '"b"', error: "timeout" }),
+				page("https://shop.test/plain"),
+			),
+		);
+
+		expect(state.getConditionalHeaders("https://shop.test/gone")).toBeNull();
+		expect(state.getConditionalHeaders("https://shop.test/broken")).toBeNull();
+		expect(state.getConditionalHeaders("https://shop.test/plain")).toBeNull();
+		expect(state.getConditionalHeaders("https://shop.test/new")).toBeNull();
+	});
+
+	it("finds previous pages by alias", () => {
+		const previous = page("https://shop.test/shoes", {
+			aliases: ["https://shop.test/shoes?ref=nav"],
+		});
+		const state = new IncrementalState(pagesOf(previous));
+
+		expect(state.getPrevious("https://shop.test/shoes?ref=nav")).toBe(previous);
+	});
+
+	it("reports added, changed, removed and unchanged pages", () => {
+		const state = new IncrementalState(
+			pagesOf(
+				page("https://shop.test/", { contentHash: "1" }),
+				page("https://shop.test/pricing", { contentHash: "2" }),
+				page("https://shop.test/legacy", { contentHash: "3" }),
+				page("https://shop.test/blog", {
+					contentHash: "4",
+					aliases: ["https://shop.test/news"],
+				}),
+			),
+		);
+
+		const report = state.buildChangeReport(
+			pagesOf(
+				page("https://shop.test/", { contentHash: "1" }),
+				page("https://shop.test/pricing", { contentHash: "2b" }),
+				page("https://shop.test/news", { contentHash: "4" }),
+				page("https://shop.test/careers", { contentHash: "5" }),
+			),
+		);
+
+		expect(report).toEqual({
+			added: ["https://shop.test/careers"],
+			changed: ["https://shop.test/pricing"],
+			removed: ["https://shop.test/legacy"],
+			unchanged: 2,
+		});
+	});
+
+	describe("snapshots", () => {
+		let dir: string;
+
+		beforeEach(async () => {
+			dir = await fs.mkdtemp(path.join(os.tmpdir(), "incremental-"));
+		});
+
+		afterEach(async () => {
+			await fs.rm(dir, { recursive: true, force: true });
+		});
+
+		it("round-trips the pages of a crawl", async () => {
+			const snapshotPath = path.join(dir, "snapshot.json");
+			const home = page("https://shop.test/", {
+				contentHash: "1",
+				etag: '"a"',
+			});
+			await IncrementalState.save(snapshotPath, pagesOf(home));
+
+			const state = await IncrementalState.load(snapshotPath);
+
+			expect(state?.getPrevious("https://shop.test/")).toEqual(home);
+		});
+
+		it("starts from scratch when there is no snapshot yet", async () => {
+			await expect(
+				IncrementalState.load(path.join(dir, "missing.json")),
+			).resolves.toBeNull();
+		});
+	});
+});
@@ -0,0 +1,114 @@
+import * as cheerio from "cheerio";
+import { LinkPositionDetector } from "../src/crawler/LinkPositionDetector";
+import { LinkPosition } from "../src/crawler/types";
+
+/**
+ * Position of every element marked with data-case, keyed by its value
+ */
+function positionsIn(body: string): Record<string, LinkPosition> {
+	const $ = cheerio.load(`<html><body>${body}</body></html>`);
+	const positions: Record<string, LinkPosition> = {};
+	$("[data-case]").each((_, element) => {
+		positions[$(element).attr("data-case")!] = LinkPositionDetector.detect(
+			element,
+			$,
+		);
+	});
+	return positions;
+}
+
+describe("LinkPositionDetector", () => {
+	it("recognises ARIA landmarks as well as their tags", () => {
+		expect(
+			positionsIn(`
+				<div role="banner"><a data-case="banner" href="/">Home</a></div>
+				<div role="navigation"><a data-case="role-nav" href="/a">A</a></div>
+				<ul role="menubar"><li><a data-case="menubar" href="/b">B</a></li></ul>
+				<div role="contentinfo"><a data-case="contentinfo" href="/c">C</a></div>
+				<div role="complementary"><a data-case="complementary" href="/d">D</a></div>
+				<footer><a data-case="footer" href="/e">E</a></footer>
+			`),
+		).toEqual({
+			banner: LinkPosition.HEADER,
+			"role-nav": LinkPosition.NAVIGATION,
+			menubar: LinkPosition.NAVIGATION,
+			contentinfo: LinkPosition.FOOTER,
+			complementary: LinkPosition.SIDEBAR,
+			footer: LinkPosition.FOOTER,
+		});
+	});
+
+	it("detects breadcrumbs by label, schema.org markup and class", () => {
+		expect(
+			positionsIn(`
+				<nav aria-label="Breadcrumb"><a data-case="label" href="/">Home</a></nav>
+				<ol itemscope itemtype="https://schema.org/BreadcrumbList">
+					<li><a data-case="schema" href="/shoes">Shoes</a></li>
+				</ol>
+				<div class="site-breadcrumbs"><a data-case="class" href="/c">C</a></div>
+			`),
+		).toEqual({
+			label: LinkPosition.BREADCRUMB,
+			schema: LinkPosition.BREADCRUMB,
+			class: LinkPosition.BREADCRUMB,
+		});
+	});
+
+	it("detects pagination, tabs and calls to action", () => {
+		expect(
+			positionsIn(`
+				<main>
+					<a data-case="rel" rel="next" href="?page=2">Next</a>
+					<nav aria-label="Pagination"><a data-case="pager" href="?page=3">3</a></nav>
+					<div role="tablist"><a data-case="tab" role="tab" href="#specs">Specs</a></div>
+					<a data-case="class-cta" class="btn btn-primary" href="/trial">Try it</a>
+					<a data-case="role-cta" role="button" href="/demo">Book a demo</a>
+				</main>
+			`),
+		).toEqual({
+			rel: LinkPosition.PAGINATION,
+			pager: LinkPosition.PAGINATION,
+			tab: LinkPosition.TABS,
+			"class-cta": LinkPosition.CTA,
+			"role-cta": LinkPosition.CTA,
+		});
+	});
+
+	it("lets specific widgets win over the landmark around them", () => {
+		expect(
+			positionsIn(`
+				<header>
+					<a data-case="header-cta" class="cta" href="/signup">Sign up</a>
+					<nav><ol class="breadcrumb"><li><a data-case="nav-crumb" href="/">Home</a></li></ol></nav>
+				</header>
+			`),
+		).toEqual({
+			"header-cta": LinkPosition.CTA,
+			"nav-crumb": LinkPosition.BREADCRUMB,
+		});
+	});
+
+	it("tells list items from running text in the page body", () => {
+		expect(
+			positionsIn(`
+				<main>
+					<ul class="products"><li><a data-case="list" href="/p/1">Shoe</a></li></ul>
+					<div role="feed"><article><a data-case="feed" href="/post">Post</a></article></div>
+					<p>Read our <a data-case="inline" href="/faq">FAQ</a>.</p>
+				</main>
+			`),
+		).toEqual({
+			list: LinkPosition.IN_CONTENT_LIST,
+			feed: LinkPosition.IN_CONTENT_LIST,
+			inline: LinkPosition.CONTENT,
+		});
+	});
+
+	it("classifies forms by their container, never as calls to action", () => {
+		expect(
+			positionsIn(`
+				<footer><form data-case="newsletter" class="btn" action="/subscribe"></form></footer>
+			`),
+		).toEqual({ newsletter: LinkPosition.FOOTER });
+	});
+});
@@ -0,0 +1,125 @@
+import { Frame, Page } from "playwright";
+import { LiveDomLinkCollector } from "../src/crawler/LiveDomLinks";
+import { readPopups } from "../src/crawler/browser/PageProbes";
+import { collectAnchors, RawAnchor } from "../src/crawler/browser/PageScans";
+import { LinkOrigin, LinkPosition } from "../src/crawler/types";
+
+/**
+ * A frame whose anchor walk returns the given anchors
+ */
+function fakeFrame(url: string, anchors: RawAnchor[] | Error): Frame {
+	return {
+		url: () => url,
+		evaluate: async (fn: unknown) => {
+			if (fn !== collectAnchors) return undefined;
+			if (anchors instanceof Error) throw anchors;
+			return anchors;
+		},
+	} as unknown as Frame;
+}
+
+const anchor = (href: string, position = "content"): RawAnchor =>
+	({ href, text: href, position }) as RawAnchor;
+
+describe("LiveDomLinkCollector", () => {
+	const mainFrame = fakeFrame("https://shop.test/", [
+		anchor("https://shop.test/account", "navigation"),
+	]);
+	const frames = [
+		mainFrame,
+		fakeFrame("https://shop.test/widget", [anchor("https://shop.test/help")]),
+		fakeFrame("about:srcdoc", [anchor("https://shop.test/terms")]),
+		fakeFrame("https://ads.test/banner", [anchor("https://ads.test/offer")]),
+	];
+
+	const fakePage = (probedPopups: string[] = []) => {
+		const listeners: Record<string, (popup: unknown) => Promise<void>> = {};
+		const page = {
+			url: () => "https://shop.test/",
+			mainFrame: () => mainFrame,
+			frames: () => frames,
+			addInitScript: async () => undefined,
+			evaluate: async (fn: unknown) =>
+				fn === readPopups ? probedPopups : undefined,
+			on: (event: string, listener: (popup: unknown) => Promise<void>) => {
+				listeners[event] = listener;
+			},
+		} as unknown as Page;
+		const openPopup = (url: string) =>
+			listeners.popup({
+				url: () => url,
+				waitForLoadState: async () => undefined,
+				close: async () => undefined,
+			});
+		return { page, openPopup };
+	};
+
+	it("marks shadow DOM and same-origin iframe links with their origin", async () => {
+		const { page } = fakePage();
+
+		const links = await new LiveDomLinkCollector({
+			capturePopups: false,
+		}).collect(page);
+
+		expect(links).toEqual([
+			{
+				href: "https://shop.test/account",
+				text: "https://shop.test/account",
+				position: LinkPosition.NAVIGATION,
+				origin: LinkOrigin.SHADOW,
+			},
+			expect.objectContaining({
+				href: "https://shop.test/help",
+				origin: LinkOrigin.IFRAME,
+			}),
+			expect.objectContaining({
+				href: "https://shop.test/terms",
+				origin: LinkOrigin.IFRAME,
+			}),
+		]);
+	});
+
+	it("records window.open targets and opened tabs once each", async () => {
+		const { page, openPopup } = fakePage([
+			"https://shop.test/chat",
+			"https://shop.test/print",
+		]);
+		const collector = new LiveDomLinkCollector({
+			includeShadowDom: false,
+			includeIframes: false,
+		});
+
+		await collector.attach(page);
+		await openPopup("https://shop.test/print");
+		await openPopup("https://shop.test/invoice.pdf");
+		await openPopup("about:blank");
+		const links = await collector.collect(page);
+
+		expect(links.map((link) => [link.href, link.origin])).toEqual([
+			["https://shop.test/chat", LinkOrigin.POPUP],
+			["https://shop.test/print", LinkOrigin.POPUP],
+			["https://shop.test/invoice.pdf", LinkOrigin.POPUP],
+		]);
+	});
+
+	it("skips frames whose DOM cannot be read", async () => {
+		const page = {
+			url: () => "https://shop.test/",
+			mainFrame: () => mainFrame,
+			frames: () => [
+				mainFrame,
+				fakeFrame(
+					"https://shop.test/detached",
+					new Error("Frame was detached"),
+				),
+			],
+		} as unknown as Page;
+
+		const links = await new LiveDomLinkCollector({
+			includeShadowDom: false,
+			capturePopups: false,
+		}).collect(page);
+
+		expect(links).toEqual([]);
+	});
+});
@@ -0,0 +1,81 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { BrowserContext, Page } from "playwright";
+import { LoginFailedError, LoginManager } from "../src/crawler/LoginManager";
+
+/**
+ * A tab that accepts every login step but never shows the success marker
+ */
+function fakeLoginTab(): Page {
+	return {
+		goto: async () => null,
+		fill: async () => undefined,
+		click: async () => undefined,
+		waitForSelector: async () => {
+			throw new Error("Timeout waiting for selector");
+		},
+		close: async () => undefined,
+	} as unknown as Page;
+}
+
+function fakeContext(newPage: () => Promise<Page>): BrowserContext {
+	return {
+		newPage,
+		storageState: async () => ({ cookies: [], origins: [] }),
+	} as unknown as BrowserContext;
+}
+
+describe("LoginManager", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), "login-"));
+		jest.spyOn(console, "log").mockImplementation(() => {});
+		jest.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		jest.restoreAllMocks();
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	const managerFor = (successSelector?: string) =>
+		new LoginManager(
+			{
+				username: "ada",
+				password: "secret",
+				loginUrl: "https://shop.test/login",
+				successSelector,
+				storageStatePath: path.join(dir, "session.json"),
+			},
+			"https://shop.test/",
+		);
+
+	it("fails the session when success is never detected", async () => {
+		const context = fakeContext(async () => fakeLoginTab());
+		const page = { context: () => context } as unknown as Page;
+
+		await expect(
+			managerFor(".account-menu").ensureSession(page),
+		).rejects.toBeInstanceOf(LoginFailedError);
+		await expect(fs.access(path.join(dir, "session.json"))).rejects.toThrow();
+	});
+
+	it("fails the session when a login step throws", async () => {
+		const context = fakeContext(
+			async () =>
+				({
+					...fakeLoginTab(),
+					goto: async () => {
+						throw new Error("net::ERR_CONNECTION_REFUSED");
+					},
+				}) as unknown as Page,
+		);
+		const page = { context: () => context } as unknown as Page;
+
+		await expect(managerFor().ensureSession(page)).rejects.toThrow(
+			/Scripted login did not succeed/,
+		);
+	});
+});
@@ -0,0 +1,104 @@
+import { JSDOM } from "jsdom";
+import {
+	installLinkPositionProbe,
+	installNavigationProbes,
+	installPopupProbe,
+	LINK_POSITION_SELECTORS,
+	readNavigations,
+	readPopups,
+	resetProbes,
+} from "../src/crawler/browser/PageProbes";
+
+/**
+ * Run a function in the page from its source, as Playwright does, so it
+ * fails if it relies on anything outside its own body
+ */
+function evaluate<A, R>(dom: JSDOM, fn: (arg: A) => R, arg?: A): R {
+	return dom.window.eval(`(${fn})(${JSON.stringify(arg)})`) as R;
+}
+
+const pageWith = (body: string) =>
+	new JSDOM(`<!DOCTYPE html><body>${body}</body>`, {
+		url: "https://shop.test/products",
+		runScripts: "outside-only",
+	});
+
+describe("installNavigationProbes", () => {
+	it("records client-side route changes until reset", () => {
+		const dom = pageWith("");
+		evaluate(dom, installNavigationProbes);
+
+		dom.window.eval(`
+			history.pushState({}, "", "/cart");
+			history.replaceState({}, "", "?step=2");
+		`);
+		expect(evaluate(dom, readNavigations)).toEqual([
+			"https://shop.test/cart",
+			"https://shop.test/cart?step=2",
+		]);
+
+		evaluate(dom, resetProbes);
+		expect(evaluate(dom, readNavigations)).toEqual([]);
+	});
+
+	it("marks elements that listen for clicks", () => {
+		const dom = pageWith(`<div id="card"></div><div id="hover"></div>`);
+		evaluate(dom, installNavigationProbes);
+
+		dom.window.eval(`
+			document.getElementById("card").addEventListener("click", () => {});
+			document.getElementById("hover").addEventListener("mouseover", () => {});
+		`);
+		const { document } = dom.window;
+		expect(
+			document.getElementById("card")!.hasAttribute("data-ufm-click"),
+		).toBe(true);
+		expect(
+			document.getElementById("hover")!.hasAttribute("data-ufm-click"),
+		).toBe(false);
+	});
+});
+
+describe("installPopupProbe", () => {
+	it("records window.open targets instead of opening them", () => {
+		const dom = pageWith("");
+		evaluate(dom, installPopupProbe);
+
+		expect(dom.window.eval(`window.open("/help", "_blank")`)).toBeNull();
+		dom.window.eval(`window.open("")`);
+		expect(evaluate(dom, readPopups)).toEqual(["https://shop.test/help"]);
+	});
+});
+
+describe("installLinkPositionProbe", () => {
+	it("classifies links by their containers, across shadow roots", () => {
+		const dom = pageWith(`
+			<header><a id="logo" href="/">Shop</a></header>
+			<nav aria-label="Breadcrumb"><a id="crumb" href="/c">Shoes</a></nav>
+			<main>
+				<a id="cta" class="btn" href="/buy">Buy</a>
+				<a id="next" rel="next" href="?page=2">Next</a>
+				<p><a id="inline" href="/faq">FAQ</a></p>
+			</main>
+			<footer><div id="host"></div></footer>
+		`);
+		dom.window.eval(`
+			document.getElementById("host").attachShadow({ mode: "open" }).innerHTML =
+				'<a id="shadowed" href="/terms">Terms</a>';
+		`);
+		evaluate(dom, installLinkPositionProbe, LINK_POSITION_SELECTORS);
+
+		const positionOf = (selector: string) =>
+			dom.window.eval(`window.__ufmLinkPosition(${selector})`);
+		expect(positionOf(`document.getElementById("logo")`)).toBe("header");
+		expect(positionOf(`document.getElementById("crumb")`)).toBe("breadcrumb");
+		expect(positionOf(`document.getElementById("cta")`)).toBe("cta");
+		expect(positionOf(`document.getElementById("next")`)).toBe("pagination");
+		expect(positionOf(`document.getElementById("inline")`)).toBe("content");
+		expect(
+			positionOf(
+				`document.getElementById("host").shadowRoot.getElementById("shadowed")`,
+			),
+		).toBe("footer");
+	});
+});
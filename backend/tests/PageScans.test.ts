@@ -0,0 +1,154 @@
+import { JSDOM } from "jsdom";
+import {
+	installLinkPositionProbe,
+	LINK_POSITION_SELECTORS,
+} from "../src/crawler/browser/PageProbes";
+import {
+	collectAnchors,
+	markClickCandidates,
+	measureAnchors,
+	restoreLocalStorage,
+} from "../src/crawler/browser/PageScans";
+
+/**
+ * Run a function in the page from its source, as Playwright does, so it
+ * fails if it relies on anything outside its own body
+ */
+function evaluate<A, R>(dom: JSDOM, fn: (arg: A) => R, arg?: A): R {
+	return dom.window.eval(`(${fn})(${JSON.stringify(arg)})`) as R;
+}
+
+const pageWith = (body: string) =>
+	new JSDOM(`<!DOCTYPE html><body>${body}</body>`, {
+		url: "https://shop.test/products",
+		runScripts: "outside-only",
+	});
+
+describe("collectAnchors", () => {
+	const page = () => {
+		const dom = pageWith(`
+			<a href="/sale">Sale</a>
+			<nav><div id="menu"></div></nav>
+		`);
+		dom.window.eval(`
+			const menu = document.getElementById("menu").attachShadow({ mode: "open" });
+			menu.innerHTML = '<a href="/account">Account</a><div id="inner"></div>';
+			menu.getElementById("inner").attachShadow({ mode: "open" }).innerHTML =
+				'<a aria-label="Cart" href="cart"></a>';
+		`);
+		evaluate(dom, installLinkPositionProbe, LINK_POSITION_SELECTORS);
+		return dom;
+	};
+
+	it("finds anchors in nested shadow roots, leaving the light DOM out", () => {
+		expect(evaluate(page(), collectAnchors, false)).toEqual([
+			{
+				href: "https://shop.test/account",
+				text: "Account",
+				position: "navigation",
+			},
+			{ href: "https://shop.test/cart", text: "Cart", position: "navigation" },
+		]);
+	});
+
+	it("includes the light DOM when asked, in document order", () => {
+		expect(
+			evaluate(page(), collectAnchors, true).map((anchor) => anchor.href),
+		).toEqual([
+			"https://shop.test/sale",
+			"https://shop.test/account",
+			"https://shop.test/cart",
+		]);
+	});
+});
+
+describe("markClickCandidates", () => {
+	it("tags visible, enabled non-anchor elements outside form submits", () => {
+		const dom = pageWith(`
+			<button aria-label="Open menu">☰</button>
+			<a href="/deals"><button>Deals</button></a>
+			<button disabled>Sold out</button>
+			<button hidden>Hidden</button>
+			<form><button type="submit">Search</button></form>
+			<div role="tab" aria-label="Reviews"></div>
+		`);
+		// jsdom has no layout: give every element but hidden ones a box
+		dom.window.HTMLElement.prototype.getBoundingClientRect = function (
+			this: HTMLElement,
+		) {
+			const size = this.hidden ? 0 : 40;
+			return { x: 10.4, y: 20.6, width: size, height: size } as DOMRect;
+		};
+
+		const candidates = evaluate(dom, markClickCandidates, "button, [role=tab]");
+
+		expect(candidates).toEqual([
+			expect.objectContaining({ index: 0, tag: "button", text: "Open menu" }),
+			expect.objectContaining({ index: 1, tag: "div", text: "Reviews" }),
+		]);
+		expect(candidates[0]).toMatchObject({ x: 10, y: 21, width: 40 });
+		expect(
+			dom.window.document
+				.querySelector('[role="tab"]')!
+				.getAttribute("data-ufm-candidate"),
+		).toBe("1");
+	});
+});
+
+describe("measureAnchors", () => {
+	it("reports each anchor's box, visibility and button styling", () => {
+		const dom = pageWith(`
+			<a href="/trial" style="background-color: rgb(0, 90, 255); padding-left: 16px; font-size: 20px; opacity: 1">Start free trial</a>
+			<a href="/faq" style="background-color: rgba(0, 0, 0, 0); padding-left: 16px; opacity: 1">FAQ</a>
+			<a href="/legal" role="button" style="opacity: 1; visibility: hidden">Legal</a>
+			<a href="/press" style="opacity: 1" data-top="900">Press</a>
+		`);
+		// jsdom has no layout: every anchor is 100x30, at data-top or 100
+		dom.window.HTMLElement.prototype.getBoundingClientRect = function (
+			this: HTMLElement,
+		) {
+			const top = Number(this.dataset.top ?? 100);
+			return { left: 10, top, width: 100, height: 30 } as DOMRect;
+		};
+
+		const measured = evaluate(dom, measureAnchors);
+
+		expect(measured[0]).toEqual({
+			x: 10,
+			y: 100,
+			width: 100,
+			height: 30,
+			visible: true,
+			aboveFold: true,
+			fontSize: 20,
+			buttonStyled: true,
+		});
+		expect(measured[1].buttonStyled).toBe(false);
+		expect(measured[2]).toMatchObject({
+			visible: false,
+			aboveFold: false,
+			buttonStyled: true,
+		});
+		expect(measured[3]).toMatchObject({ visible: true, aboveFold: false });
+	});
+});
+
+describe("restoreLocalStorage", () => {
+	it("restores only the page origin's saved entries", () => {
+		const dom = pageWith("");
+
+		evaluate(dom, restoreLocalStorage, [
+			{
+				origin: "https://other.test",
+				localStorage: [{ name: "token", value: "other" }],
+			},
+			{
+				origin: "https://shop.test",
+				localStorage: [{ name: "token", value: "abc" }],
+			},
+		]);
+
+		expect(dom.window.localStorage.getItem("token")).toBe("abc");
+		expect(dom.window.localStorage).toHaveLength(1);
+	});
+});
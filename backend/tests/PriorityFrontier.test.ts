@@ -0,0 +1,65 @@
+import { PriorityFrontier } from "../src/crawler/PriorityFrontier";
+import { Link, LinkPosition } from "../src/crawler/types";
+
+const SITE = "https://shop.test";
+
+function link(path: string, position: LinkPosition, text = ""): Link {
+	return { href: `${SITE}${path}`, text, position, context: "" };
+}
+
+function request(path: string, depth = 1) {
+	return { url: `${SITE}${path}`, depth };
+}
+
+const urls = (requests: { url: string }[]) =>
+	requests.map(({ url }) => url.replace(SITE, ""));
+
+describe("PriorityFrontier", () => {
+	it("takes important URLs and prominent links first", () => {
+		const frontier = new PriorityFrontier();
+		frontier.add(request("/legal"), link("/legal", LinkPosition.FOOTER));
+		frontier.add(request("/spring"), link("/spring", LinkPosition.CTA));
+		frontier.add(request("/checkout"), link("/checkout", LinkPosition.FOOTER));
+		frontier.add(request("/news"), link("/news", LinkPosition.CONTENT));
+
+		expect(urls(frontier.take(4))).toEqual([
+			"/checkout",
+			"/spring",
+			"/news",
+			"/legal",
+		]);
+	});
+
+	it("prefers shallow URLs and keeps discovery order between equals", () => {
+		const frontier = new PriorityFrontier();
+		frontier.add(request("/deep", 4));
+		frontier.add(request("/first", 2));
+		frontier.add(request("/second", 2));
+
+		expect(urls(frontier.take(3))).toEqual(["/first", "/second", "/deep"]);
+	});
+
+	it("raises a waiting URL each time another page links it", () => {
+		const frontier = new PriorityFrontier();
+		frontier.add(request("/a"));
+		frontier.add(request("/b"));
+		frontier.add(request("/b"));
+
+		expect(frontier.size).toBe(2);
+		expect(urls(frontier.take(1))).toEqual(["/b"]);
+		expect(urls(frontier.take(5))).toEqual(["/a"]);
+	});
+
+	it("keeps the shallowest request and never hands out a URL twice", () => {
+		const frontier = new PriorityFrontier({ foldWww: true });
+		frontier.add(request("/a", 3));
+		frontier.add({ url: "https://www.shop.test/a", depth: 1 });
+
+		expect(frontier.take(5)).toEqual([
+			{ url: "https://www.shop.test/a", depth: 1 },
+		]);
+		frontier.add(request("/a", 1));
+		expect(frontier.size).toBe(0);
+		expect(frontier.take(5)).toEqual([]);
+	});
+});
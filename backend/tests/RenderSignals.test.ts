@@ -0,0 +1,39 @@
+import { RenderSignals } from "../src/utils/RenderSignals";
+
+const paragraph =
+	"Plans for teams of every size, with unlimited projects, priority support and single sign-on on every tier.";
+
+describe("RenderSignals.looksClientRendered", () => {
+	it("keeps server-rendered pages with links and text on plain HTTP", () => {
+		expect(
+			RenderSignals.looksClientRendered(
+				`<html><body><nav><a href="/pricing">Pricing</a></nav><p>${paragraph}</p></body></html>`,
+			),
+		).toBe(false);
+	});
+
+	it("sends an empty application shell to the browser", () => {
+		expect(
+			RenderSignals.looksClientRendered(
+				`<html><body><div id="root"></div><script src="/app.js"></script></body></html>`,
+			),
+		).toBe(true);
+	});
+
+	it("sends pages without anchors to the browser, however long", () => {
+		expect(
+			RenderSignals.looksClientRendered(
+				`<body><p>${paragraph}</p><button onclick="go()">Start</button></body>`,
+			),
+		).toBe(true);
+	});
+
+	it("does not count inline scripts and styles as text", () => {
+		const bundle = `window.__STATE__ = ${JSON.stringify({ copy: paragraph })};`;
+		expect(
+			RenderSignals.looksClientRendered(
+				`<body><a href="/">Home</a><script>${bundle}</script><style>body { margin: 0 }</style><noscript>${paragraph}</noscript></body>`,
+			),
+		).toBe(true);
+	});
+});
@@ -0,0 +1,54 @@
+import { RetryPolicy } from "../src/crawler/RetryPolicy";
+
+describe("RetryPolicy.parseRetryAfter", () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("reads delta seconds", () => {
+		expect(RetryPolicy.parseRetryAfter("120")).toBe(120000);
+		expect(RetryPolicy.parseRetryAfter(" 1.5 ")).toBe(1500);
+	});
+
+	it("reads HTTP dates relative to now", () => {
+		jest.useFakeTimers({ now: Date.parse("2024-05-01T12:00:00Z") });
+		expect(RetryPolicy.parseRetryAfter("Wed, 01 May 2024 12:00:30 GMT")).toBe(
+			30000,
+		);
+	});
+
+	it("never returns a negative delay", () => {
+		jest.useFakeTimers({ now: Date.parse("2024-05-01T12:00:00Z") });
+		expect(RetryPolicy.parseRetryAfter("-5")).toBe(0);
+		expect(RetryPolicy.parseRetryAfter("Wed, 01 May 2024 11:00:00 GMT")).toBe(
+			0,
+		);
+	});
+
+	it.each([undefined, "", "   ", "soon"])("ignores %p", (value) => {
+		expect(RetryPolicy.parseRetryAfter(value)).toBeUndefined();
+	});
+});
+
+describe("RetryPolicy", () => {
+	const policy = new RetryPolicy([429, 503]);
+
+	it("retries only the configured statuses", () => {
+		expect(policy.shouldRetryStatus(429)).toBe(true);
+		expect(policy.shouldRetryStatus(404)).toBe(false);
+		expect(policy.shouldRetryStatus(undefined)).toBe(false);
+	});
+
+	it("honors Retry-After up to the cap", () => {
+		expect(policy.getBackoffDelay(0, 2000)).toBe(2000);
+		expect(policy.getBackoffDelay(0, 600000)).toBe(30000);
+	});
+
+	it("backs off exponentially with jitter", () => {
+		jest.spyOn(Math, "random").mockReturnValue(0.5);
+		expect(policy.getBackoffDelay(0)).toBe(1500);
+		expect(policy.getBackoffDelay(3)).toBe(8500);
+		expect(policy.getBackoffDelay(10)).toBe(30000);
+		jest.restoreAllMocks();
+	});
+});
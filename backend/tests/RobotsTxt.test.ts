@@ -0,0 +1,99 @@
+import { RobotsTxt } from "../src/crawler/RobotsTxt";
+
+const AGENT = "IntelligentUserFlowMapper/1.0";
+
+describe("RobotsTxt", () => {
+	it("allows everything when no group applies", () => {
+		const robots = RobotsTxt.parse("User-agent: Googlebot\nDisallow: /", AGENT);
+		expect(robots.isAllowed("https://example.com/anything")).toBe(true);
+	});
+
+	it("falls back to the * group", () => {
+		const robots = RobotsTxt.parse(
+			"User-agent: *\nDisallow: /admin\nCrawl-delay: 2",
+			AGENT,
+		);
+		expect(robots.isAllowed("https://example.com/admin/users")).toBe(false);
+		expect(robots.isAllowed("https://example.com/about")).toBe(true);
+		expect(robots.getCrawlDelay()).toBe(2);
+	});
+
+	it("prefers the group naming our product token, case-insensitively", () => {
+		const robots = RobotsTxt.parse(
+			[
+				"User-agent: *",
+				"Disallow: /",
+				"",
+				"User-agent: intelligentuserflowmapper",
+				"Disallow: /private",
+			].join("\n"),
+			AGENT,
+		);
+		expect(robots.isAllowed("https://example.com/shop")).toBe(true);
+		expect(robots.isAllowed("https://example.com/private/x")).toBe(false);
+	});
+
+	it("does not match groups that are only a prefix of the product token", () => {
+		const robots = RobotsTxt.parse(
+			"User-agent: Intelligent\nDisallow: /\n\nUser-agent: *\nDisallow: /tmp",
+			AGENT,
+		);
+		expect(robots.isAllowed("https://example.com/shop")).toBe(true);
+		expect(robots.isAllowed("https://example.com/tmp/a")).toBe(false);
+	});
+
+	it("merges consecutive User-agent lines into one group", () => {
+		const robots = RobotsTxt.parse(
+			"User-agent: other\nUser-agent: IntelligentUserFlowMapper\nDisallow: /x",
+			AGENT,
+		);
+		expect(robots.isAllowed("https://example.com/x")).toBe(false);
+	});
+
+	it("lets the longest rule win and Allow win ties", () => {
+		const robots = RobotsTxt.parse(
+			[
+				"User-agent: *",
+				"Disallow: /shop",
+				"Allow: /shop/cart",
+				"Disallow: /page",
+				"Allow: /page",
+			].join("\n"),
+			AGENT,
+		);
+		expect(robots.isAllowed("https://example.com/shop/item")).toBe(false);
+		expect(robots.isAllowed("https://example.com/shop/cart")).toBe(true);
+		expect(robots.isAllowed("https://example.com/page")).toBe(true);
+	});
+
+	it("supports * wildcards and $ anchors", () => {
+		const robots = RobotsTxt.parse(
+			"User-agent: *\nDisallow: /*.json$\nDisallow: /*?sort=",
+			AGENT,
+		);
+		expect(robots.isAllowed("https://example.com/data/feed.json")).toBe(false);
+		expect(robots.isAllowed("https://example.com/data/feed.json?v=1")).toBe(
+			true,
+		);
+		expect(robots.isAllowed("https://example.com/list?sort=price")).toBe(false);
+	});
+
+	it("treats an empty Disallow as allow-all and always allows /robots.txt", () => {
+		expect(
+			RobotsTxt.parse("User-agent: *\nDisallow:", AGENT).isAllowed(
+				"https://example.com/a",
+			),
+		).toBe(true);
+		expect(
+			RobotsTxt.disallowAll().isAllowed("https://example.com/robots.txt"),
+		).toBe(true);
+	});
+
+	it("collects Sitemap lines outside of groups", () => {
+		const robots = RobotsTxt.parse(
+			"Sitemap: https://example.com/sitemap.xml\nUser-agent: *\nDisallow:",
+			AGENT,
+		);
+		expect(robots.getSitemaps()).toEqual(["https://example.com/sitemap.xml"]);
+	});
+});
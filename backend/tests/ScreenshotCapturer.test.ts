@@ -0,0 +1,93 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { Page } from "playwright";
+import { ScreenshotCapturer } from "../src/crawler/ScreenshotCapturer";
+
+/**
+ * A page whose screenshots are fixed bytes: "viewport", "full" and, in the
+ * scratch tab, "thumb"
+ */
+function fakePage(screenshot?: () => Promise<Buffer>): Page {
+	const thumbnailTab = {
+		setViewportSize: async () => undefined,
+		setContent: async () => undefined,
+		screenshot: async () => Buffer.from("thumb"),
+		close: async () => undefined,
+	};
+	return {
+		url: () => "https://shop.test/",
+		viewportSize: () => ({ width: 1280, height: 720 }),
+		screenshot:
+			screenshot ??
+			(async (options: { fullPage?: boolean }) =>
+				Buffer.from(options.fullPage ? "full" : "viewport")),
+		context: () => ({ newPage: async () => thumbnailTab }),
+	} as unknown as Page;
+}
+
+const hashOf = (content: string) =>
+	createHash("sha256").update(content).digest("hex").slice(0, 16);
+
+describe("ScreenshotCapturer", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), "screenshots-"));
+	});
+
+	afterEach(async () => {
+		jest.restoreAllMocks();
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it("stores each image under its content hash", async () => {
+		const screenshots = await new ScreenshotCapturer({
+			directory: dir,
+		}).capture(fakePage());
+
+		expect(screenshots).toEqual({
+			viewport: path.join(dir, `${hashOf("viewport")}.png`),
+			fullPage: path.join(dir, `${hashOf("full")}.png`),
+			thumbnail: path.join(dir, `${hashOf("thumb")}.jpg`),
+		});
+		await expect(fs.readFile(screenshots.fullPage!, "utf-8")).resolves.toBe(
+			"full",
+		);
+	});
+
+	it("writes an identical render once", async () => {
+		const capturer = new ScreenshotCapturer({ directory: dir });
+
+		const first = await capturer.capture(fakePage());
+		const second = await capturer.capture(fakePage());
+
+		expect(second).toEqual(first);
+		expect(await fs.readdir(dir)).toHaveLength(3);
+	});
+
+	it("keeps only the requested kinds, always with a thumbnail", async () => {
+		const screenshots = await new ScreenshotCapturer({
+			directory: dir,
+			fullPage: false,
+		}).capture(fakePage());
+
+		expect(Object.keys(screenshots).sort()).toEqual(["thumbnail", "viewport"]);
+	});
+
+	it("yields no files when the page cannot be captured", async () => {
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+		const screenshots = await new ScreenshotCapturer({
+			directory: dir,
+		}).capture(
+			fakePage(async () => {
+				throw new Error("Target closed");
+			}),
+		);
+
+		expect(screenshots).toEqual({});
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Target closed"));
+	});
+});
@@ -0,0 +1,108 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { gzipSync } from "zlib";
+import { SitemapLoader } from "../src/crawler/SitemapLoader";
+
+describe("SitemapLoader.parse", () => {
+	it("reads page URLs from a urlset", () => {
+		const parsed = SitemapLoader.parse(`<?xml version="1.0"?>
+			<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+				<url><loc>https://example.com/</loc></url>
+				<url><loc> https://example.com/about </loc></url>
+			</urlset>`);
+		expect(parsed.pageUrls).toEqual([
+			"https://example.com/",
+			"https://example.com/about",
+		]);
+		expect(parsed.childSitemaps).toEqual([]);
+	});
+
+	it("reads child sitemaps from a sitemap index", () => {
+		const parsed = SitemapLoader.parse(
+			`<sitemapindex><sitemap><loc>https://example.com/posts.xml</loc></sitemap></sitemapindex>`,
+		);
+		expect(parsed.pageUrls).toEqual([]);
+		expect(parsed.childSitemaps).toEqual(["https://example.com/posts.xml"]);
+	});
+
+	it("ignores image and video extension locations", () => {
+		const parsed = SitemapLoader.parse(`<urlset
+				xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+				xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"
+				xmlns:video="http://www.google.com/schemas/sitemap-video/1.1">
+			<url>
+				<image:image><image:loc>https://cdn.example.com/shoe.jpg</image:loc></image:image>
+				<loc>https://example.com/shoe</loc>
+				<video:video>
+					<video:content_loc>https://cdn.example.com/shoe.mp4</video:content_loc>
+					<video:player_loc>https://example.com/player</video:player_loc>
+				</video:video>
+			</url>
+		</urlset>`);
+		expect(parsed.pageUrls).toEqual(["https://example.com/shoe"]);
+	});
+
+	it("decodes CDATA, entities and namespaced tags, skipping malformed locs", () => {
+		const parsed = SitemapLoader.parse(`<sm:urlset>
+			<sm:url><sm:loc><![CDATA[https://example.com/a?x=1&y=2]]></sm:loc></sm:url>
+			<sm:url><sm:loc>https://example.com/b?x=1&amp;y=2</sm:loc></sm:url>
+			<sm:url><sm:loc>not a url</sm:loc></sm:url>
+		</sm:urlset>`);
+		expect(parsed.pageUrls).toEqual([
+			"https://example.com/a?x=1&y=2",
+			"https://example.com/b?x=1&y=2",
+		]);
+	});
+});
+
+describe("SitemapLoader.load", () => {
+	let server: http.Server;
+	let base: string;
+
+	beforeAll(async () => {
+		server = http.createServer((req, res) => {
+			switch (req.url) {
+				case "/sitemap.xml":
+					res.end(
+						`<sitemapindex><sitemap><loc>${base}/pages.xml.gz</loc></sitemap><sitemap><loc>${base}/missing.xml</loc></sitemap></sitemapindex>`,
+					);
+					return;
+				case "/pages.xml.gz":
+					res.end(
+						gzipSync(
+							`<urlset>${["a", "b", "c"].map((page) => `<url><loc>${base}/${page}</loc></url>`).join("")}</urlset>`,
+						),
+					);
+					return;
+				default:
+					res.statusCode = 404;
+					res.end();
+			}
+		});
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+		base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		jest.spyOn(console, "log").mockImplementation(() => undefined);
+		jest.spyOn(console, "warn").mockImplementation(() => undefined);
+	});
+
+	afterAll(async () => {
+		jest.restoreAllMocks();
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	it("follows sitemap indexes into gzipped sitemaps", async () => {
+		const urls = await new SitemapLoader("test").load(
+			[`${base}/sitemap.xml`],
+			100,
+		);
+		expect(urls).toEqual([`${base}/a`, `${base}/b`, `${base}/c`]);
+	});
+
+	it("stops at maxUrls", async () => {
+		const urls = await new SitemapLoader("test").load(
+			[`${base}/sitemap.xml`],
+			2,
+		);
+		expect(urls).toHaveLength(2);
+	});
+});
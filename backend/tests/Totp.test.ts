@@ -0,0 +1,34 @@
+import { Totp } from "../src/utils/Totp";
+
+// RFC 6238 appendix B: ASCII "12345678901234567890" as base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("Totp", () => {
+	it.each([
+		[59, "94287082"],
+		[1111111109, "07081804"],
+		[1111111111, "14050471"],
+		[1234567890, "89005924"],
+		[2000000000, "69279037"],
+		[20000000000, "65353130"],
+	])("matches the RFC 6238 SHA-1 vector at %i s", (seconds, code) => {
+		expect(Totp.generate(RFC_SECRET, seconds * 1000, 8)).toBe(code);
+	});
+
+	it("defaults to six digits over 30 second periods", () => {
+		expect(Totp.generate(RFC_SECRET, 59000)).toBe("287082");
+		expect(Totp.generate(RFC_SECRET, 30000)).toBe(
+			Totp.generate(RFC_SECRET, 59999),
+		);
+	});
+
+	it("accepts secrets with spaces, dashes, padding and lower case", () => {
+		expect(
+			Totp.generate("gezd gnbv-gy3t qojq gezd gnbv gy3t qojq====", 59000, 8),
+		).toBe("94287082");
+	});
+
+	it("rejects characters outside the base32 alphabet", () => {
+		expect(() => Totp.generate("GEZD1", 0)).toThrow(/Invalid base32/);
+	});
+});
@@ -0,0 +1,104 @@
+import { TrapDetector } from "../src/crawler/TrapDetector";
+import { TrapKind } from "../src/crawler/types";
+
+describe("TrapDetector state", () => {
+	it("keeps counting from a restored snapshot", () => {
+		const detector = new TrapDetector({ maxUrlsPerTemplate: 2 });
+		detector.check("https://shop.test/item/1");
+		detector.check("https://shop.test/item/2");
+		expect(detector.check("https://shop.test/item/3")).not.toBeNull();
+
+		const resumed = new TrapDetector({ maxUrlsPerTemplate: 2 });
+		resumed.restoreState(JSON.parse(JSON.stringify(detector.getState())));
+
+		expect(resumed.check("https://shop.test/item/1")).toBeNull();
+		expect(resumed.check("https://shop.test/item/4")?.kind).toBe(
+			TrapKind.TEMPLATE_CAP,
+		);
+		// A suppressed URL seen again still counts once
+		resumed.check("https://shop.test/item/3");
+		expect(resumed.getFamilies()).toEqual([
+			{
+				kind: TrapKind.TEMPLATE_CAP,
+				pattern: "https://shop.test/item/:id",
+				suppressedCount: 2,
+				examples: ["https://shop.test/item/3", "https://shop.test/item/4"],
+			},
+		]);
+	});
+
+	it("restores query variants per path", () => {
+		const detector = new TrapDetector({ maxQueryVariantsPerPath: 2 });
+		detector.check("https://shop.test/shoes?color=red");
+		detector.check("https://shop.test/shoes?size=9");
+
+		const resumed = new TrapDetector({ maxQueryVariantsPerPath: 2 });
+		resumed.restoreState(detector.getState());
+		expect(resumed.check("https://shop.test/shoes?brand=x")?.kind).toBe(
+			TrapKind.QUERY_COMBINATIONS,
+		);
+	});
+});
+
+describe("TrapDetector", () => {
+	it("caps calendar URLs tighter than other templates", () => {
+		const detector = new TrapDetector({ maxCalendarUrls: 2 });
+		expect(detector.check("https://shop.test/events/2024/01")).toBeNull();
+		expect(detector.check("https://shop.test/events/2024/02")).toBeNull();
+		const trap = detector.check("https://shop.test/events/2024/03");
+		expect(trap?.kind).toBe(TrapKind.CALENDAR);
+		expect(trap?.pattern).toBe("https://shop.test/events/:date/:date");
+	});
+
+	it("treats date query parameters as calendar members", () => {
+		const detector = new TrapDetector({ maxCalendarUrls: 1 });
+		detector.check("https://shop.test/agenda?day=2024-05-01");
+		expect(
+			detector.check("https://shop.test/agenda?day=2024-05-02")?.kind,
+		).toBe(TrapKind.CALENDAR);
+	});
+
+	it("stops repeating path segments", () => {
+		const detector = new TrapDetector();
+		expect(detector.check("https://shop.test/a/b/a/b")).toBeNull();
+		expect(detector.check("https://shop.test/a/b/a/b/a")?.kind).toBe(
+			TrapKind.REPEATING_PATH,
+		);
+	});
+
+	it("stops pagination beyond the depth cap", () => {
+		const detector = new TrapDetector({ maxPaginationDepth: 3 });
+		expect(detector.check("https://shop.test/blog?page=3")).toBeNull();
+		expect(detector.check("https://shop.test/blog?page=4")?.kind).toBe(
+			TrapKind.PAGINATION_DEPTH,
+		);
+		expect(detector.check("https://shop.test/news/page/9")?.kind).toBe(
+			TrapKind.PAGINATION_DEPTH,
+		);
+	});
+
+	it("caps query-string combinations on one path", () => {
+		const detector = new TrapDetector({ maxQueryVariantsPerPath: 2 });
+		detector.check("https://shop.test/shoes?color=red");
+		detector.check("https://shop.test/shoes?color=blue");
+		const trap = detector.check("https://shop.test/shoes?size=9&color=red");
+		expect(trap?.kind).toBe(TrapKind.QUERY_COMBINATIONS);
+		expect(trap?.pattern).toBe("https://shop.test/shoes?color=*&size=*");
+	});
+
+	it("admits a URL once and counts repeats of a suppressed URL once", () => {
+		const detector = new TrapDetector({ maxUrlsPerTemplate: 1 });
+		expect(detector.check("https://shop.test/item/1")).toBeNull();
+		expect(detector.check("https://shop.test/item/1")).toBeNull();
+		detector.check("https://shop.test/item/2");
+		detector.check("https://shop.test/item/2");
+		expect(detector.getFamilies()).toEqual([
+			{
+				kind: TrapKind.TEMPLATE_CAP,
+				pattern: "https://shop.test/item/:id",
+				suppressedCount: 1,
+				examples: ["https://shop.test/item/2"],
+			},
+		]);
+	});
+});
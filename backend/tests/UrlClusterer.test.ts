@@ -0,0 +1,144 @@
+import { UrlClusterer } from "../src/analyzer/UrlClusterer";
+import { LinkPosition, PageMetadata } from "../src/crawler/types";
+
+function page(url: string, links: string[] = [], depth = 1): PageMetadata {
+	return {
+		url,
+		title: url,
+		depth,
+		timestamp: 0,
+		outgoingLinks: links.map((href) => ({
+			href,
+			text: href,
+			position: LinkPosition.CONTENT,
+			context: "",
+		})),
+	};
+}
+
+function pagesOf(...list: PageMetadata[]): Map<string, PageMetadata> {
+	return new Map(list.map((entry) => [entry.url, entry]));
+}
+
+describe("UrlClusterer", () => {
+	beforeEach(() => {
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("collapses identifier URLs into one page and rewrites links", () => {
+		const { pages, clusters } = new UrlClusterer().cluster(
+			pagesOf(
+				page(
+					"https://shop.test/",
+					[
+						"https://shop.test/product/1",
+						"https://shop.test/product/2",
+						"https://shop.test/product/3",
+					],
+					0,
+				),
+				page("https://shop.test/product/1", ["https://shop.test/cart"]),
+				page("https://shop.test/product/2"),
+				page("https://shop.test/product/3"),
+			),
+		);
+
+		const template = "https://shop.test/product/:id";
+		expect([...clusters.keys()]).toEqual([template]);
+		expect(clusters.get(template)!.members).toHaveLength(3);
+		expect([...pages.keys()]).toEqual(["https://shop.test/", template]);
+		expect(
+			new Set(
+				pages.get("https://shop.test/")!.outgoingLinks.map((l) => l.href),
+			),
+		).toEqual(new Set([template]));
+		expect(pages.get(template)!.outgoingLinks.map((l) => l.href)).toEqual([
+			"https://shop.test/cart",
+		]);
+	});
+
+	it("keeps every member's forms, once per action", () => {
+		const withForms = (url: string, actions: string[]): PageMetadata => ({
+			...page(url),
+			forms: actions.map((action) => ({
+				action,
+				method: "POST",
+				fields: [],
+				submitText: "Go",
+				position: LinkPosition.CONTENT,
+			})),
+		});
+		const { pages } = new UrlClusterer().cluster(
+			pagesOf(
+				withForms("https://shop.test/product/1", ["https://shop.test/cart"]),
+				withForms("https://shop.test/product/2", [
+					"https://shop.test/cart",
+					"https://shop.test/product/3",
+				]),
+				withForms("https://shop.test/product/3", ["https://shop.test/review"]),
+			),
+		);
+
+		expect(
+			pages.get("https://shop.test/product/:id")!.forms!.map((f) => f.action),
+		).toEqual([
+			"https://shop.test/cart",
+			"https://shop.test/product/:id",
+			"https://shop.test/review",
+		]);
+	});
+
+	it("needs enough siblings before a slug becomes a placeholder", () => {
+		const slugs = ["summer-sale", "new-arrivals", "gift-guide"];
+		const { clusters } = new UrlClusterer().cluster(
+			pagesOf(...slugs.map((slug) => page(`https://shop.test/blog/${slug}`))),
+		);
+		expect([...clusters.keys()]).toEqual(["https://shop.test/blog/:slug"]);
+
+		const { clusters: tooFew } = new UrlClusterer().cluster(
+			pagesOf(
+				...slugs
+					.slice(0, 2)
+					.map((slug) => page(`https://shop.test/blog/${slug}`)),
+			),
+		);
+		expect(tooFew.size).toBe(0);
+	});
+
+	it("never treats top-level pages as slugs", () => {
+		const { clusters } = new UrlClusterer().cluster(
+			pagesOf(
+				page("https://shop.test/about-us"),
+				page("https://shop.test/contact-us"),
+				page("https://shop.test/terms-of-use"),
+			),
+		);
+		expect(clusters.size).toBe(0);
+	});
+
+	it("splits out members whose structure differs", () => {
+		const withShape = (url: string, shape: string[]) => ({
+			...page(url),
+			structureFingerprint: shape,
+		});
+		const article = ["header", "article", "footer"];
+		const { clusters } = new UrlClusterer({
+			useDomSimilarity: true,
+			minClusterSize: 2,
+		}).cluster(
+			pagesOf(
+				withShape("https://shop.test/item/1", article),
+				withShape("https://shop.test/item/2", article),
+				withShape("https://shop.test/item/3", ["form", "table", "aside"]),
+			),
+		);
+		expect(clusters.get("https://shop.test/item/:id")!.members).toEqual([
+			"https://shop.test/item/1",
+			"https://shop.test/item/2",
+		]);
+	});
+});
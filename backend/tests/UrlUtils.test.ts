@@ -0,0 +1,182 @@
+import {
+	CrawlConfigValidator,
+	CrawlConstraintsImpl,
+} from "../src/config/CrawlConfig";
+import { UrlUtils } from "../src/utils/UrlUtils";
+
+describe("UrlUtils.normalize", () => {
+	it("drops in-page anchors and trailing slashes and sorts params", () => {
+		expect(UrlUtils.normalize("https://example.com/docs/?b=2&a=1#intro")).toBe(
+			"https://example.com/docs?a=1&b=2",
+		);
+	});
+
+	it("keeps hash routes", () => {
+		expect(UrlUtils.normalize("https://example.com/#/users/")).toBe(
+			"https://example.com/#/users",
+		);
+	});
+
+	it("drops and keeps params by pattern", () => {
+		expect(
+			UrlUtils.normalize("https://example.com/p?utm_source=x&id=4", {
+				dropParams: ["utm_*"],
+			}),
+		).toBe("https://example.com/p?id=4");
+		expect(
+			UrlUtils.normalize("https://example.com/p?sort=asc&page=2", {
+				keepOnlyParams: ["page"],
+			}),
+		).toBe("https://example.com/p?page=2");
+	});
+
+	it("folds www, https, index files and path case when asked", () => {
+		expect(
+			UrlUtils.normalize("http://www.example.com/Shop/index.html", {
+				foldWww: true,
+				foldHttps: true,
+				stripIndexFiles: true,
+				lowercasePath: true,
+			}),
+		).toBe("https://example.com/shop");
+	});
+
+	it("returns unparseable input unchanged", () => {
+		expect(UrlUtils.normalize("not a url")).toBe("not a url");
+	});
+});
+
+describe("UrlUtils.toRequestUrl", () => {
+	it("keeps the URL as found apart from in-page anchors", () => {
+		const rules = { foldWww: true, foldHttps: true, lowercasePath: true };
+		expect(
+			UrlUtils.toRequestUrl("http://www.example.com/Shop/?b=2&a=1#top", rules),
+		).toBe("http://www.example.com/Shop/?b=2&a=1");
+	});
+
+	it("keeps hash routes", () => {
+		expect(UrlUtils.toRequestUrl("https://example.com/#/cart")).toBe(
+			"https://example.com/#/cart",
+		);
+	});
+});
+
+describe("CrawlConstraintsImpl.shouldFollowLink", () => {
+	const constraintsFor = (foldWww: boolean) =>
+		new CrawlConstraintsImpl(
+			CrawlConfigValidator.validate({
+				startUrl: "https://example.com",
+				canonicalization: { foldWww },
+			}),
+		);
+
+	it("treats www links as internal when www is folded", () => {
+		expect(
+			constraintsFor(true).shouldFollowLink(
+				"https://www.example.com/pricing",
+				"https://example.com/",
+			),
+		).toBe(true);
+	});
+
+	it("keeps www and bare hosts apart otherwise", () => {
+		expect(
+			constraintsFor(false).shouldFollowLink(
+				"https://www.example.com/pricing",
+				"https://example.com/",
+			),
+		).toBe(false);
+	});
+});
+
+describe("CrawlConstraintsImpl.isAllowedContentType", () => {
+	const constraints = new CrawlConstraintsImpl(
+		CrawlConfigValidator.validate({
+			startUrl: "https://example.com",
+			constraints: { includeOnlyContentTypes: ["text/html", "application/*"] },
+		}),
+	);
+
+	it("matches media types and wildcards, ignoring parameters", () => {
+		expect(constraints.isAllowedContentType("text/html; charset=utf-8")).toBe(
+			true,
+		);
+		expect(constraints.isAllowedContentType("application/xhtml+xml")).toBe(
+			true,
+		);
+		expect(constraints.isAllowedContentType("image/png")).toBe(false);
+	});
+
+	it("lets responses without a Content-Type through", () => {
+		expect(constraints.isAllowedContentType(undefined)).toBe(true);
+		expect(constraints.isAllowedContentType("")).toBe(true);
+	});
+});
+
+describe("UrlUtils.classifySegment", () => {
+	it.each([
+		["123", ":id"],
+		["sku-10432", ":id"],
+		["INV_2024001", ":id"],
+		["6f1c2a9e-4b7d-4e3a-9c1f-2b8d7e6a5f40", ":uuid"],
+		["9f86d081884c7d65", ":hash"],
+	])("classifies %s as %s", (segment, placeholder) => {
+		expect(UrlUtils.classifySegment(segment)).toBe(placeholder);
+	});
+
+	it.each(["products", "a1b2c3d4", "v2", "summer-sale"])(
+		"keeps %s literal",
+		(segment) => {
+			expect(UrlUtils.classifySegment(segment)).toBeNull();
+		},
+	);
+});
+
+describe("UrlUtils.getUrlTemplate", () => {
+	it("templates path segments, query values and hash routes", () => {
+		expect(
+			UrlUtils.getUrlTemplate(
+				"https://example.com/product/123?page=2&ref=home#/order/42",
+			),
+		).toBe("https://example.com/product/:id?page=:id&ref=home#/order/:id");
+	});
+
+	it("leaves literal URLs alone", () => {
+		expect(UrlUtils.getUrlTemplate("https://example.com/about")).toBe(
+			"https://example.com/about",
+		);
+	});
+});
+
+describe("UrlUtils.getHashRoute", () => {
+	it.each([
+		["#/users/", "#/users"],
+		["#!/users/42", "#!/users/42"],
+		["#/search/?q=shoes", "#/search?q=shoes"],
+		["#/?tab=2", "#/?tab=2"],
+	])("keeps the route %s as %s", (hash, route) => {
+		expect(UrlUtils.getHashRoute(hash)).toBe(route);
+	});
+
+	it.each(["", "#", "#/", "#!/", "#section-2"])(
+		"treats %p as no route",
+		(hash) => {
+			expect(UrlUtils.getHashRoute(hash)).toBeNull();
+		},
+	);
+
+	it("follows the hashRouting mode", () => {
+		expect(UrlUtils.getHashRoute("#section-2", { hashRouting: "always" })).toBe(
+			"#section-2",
+		);
+		expect(
+			UrlUtils.getHashRoute("#/users", { hashRouting: "never" }),
+		).toBeNull();
+	});
+
+	it("splits hash routes into path segments", () => {
+		expect(
+			UrlUtils.getPathSegments("https://example.com/app#!/users/42"),
+		).toEqual(["app", "users", "42"]);
+	});
+});
@@ -0,0 +1,119 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { gzipSync } from "zlib";
+import { WarcSource } from "../src/crawler/sources/WarcSource";
+
+/**
+ * A WARC response record wrapping a raw HTTP response
+ */
+function record(uri: string, http: string | Buffer): Buffer {
+	const block = Buffer.isBuffer(http) ? http : Buffer.from(http, "latin1");
+	const header = [
+		"WARC/1.0",
+		"WARC-Type: response",
+		`WARC-Target-URI: <${uri}>`,
+		`Content-Length: ${block.length}`,
+	].join("\r\n");
+	return Buffer.concat([
+		Buffer.from(`${header}\r\n\r\n`),
+		block,
+		Buffer.from("\r\n\r\n"),
+	]);
+}
+
+function htmlResponse(body: string, extraHeaders: string[] = []): string {
+	return [
+		"HTTP/1.1 200 OK",
+		"Content-Type: text/html",
+		...extraHeaders,
+		"",
+		body,
+	].join("\r\n");
+}
+
+describe("WarcSource", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), "warc-"));
+		jest.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		jest.restoreAllMocks();
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	async function readArchive(data: Buffer, name = "site.warc") {
+		const file = path.join(dir, name);
+		await fs.writeFile(file, data);
+		return new WarcSource(file).read();
+	}
+
+	it("reads HTML responses, chunked bodies and redirects", async () => {
+		const contents = await readArchive(
+			Buffer.concat([
+				record("https://shop.test/", htmlResponse("<h1>Home</h1>")),
+				record(
+					"https://shop.test/cart",
+					htmlResponse("5\r\n<h1>C\r\n4\r\nart<\r\n0\r\n\r\n", [
+						"Transfer-Encoding: chunked",
+					]),
+				),
+				record(
+					"https://shop.test/old",
+					"HTTP/1.1 301 Moved\r\nLocation: /new\r\n\r\n",
+				),
+			]),
+		);
+
+		expect(contents.documents.map((doc) => [doc.url, doc.html])).toEqual([
+			["https://shop.test/", "<h1>Home</h1>"],
+			["https://shop.test/cart", "<h1>Cart<"],
+		]);
+		expect(contents.redirects).toEqual([
+			{ from: "https://shop.test/old", to: "https://shop.test/new" },
+		]);
+	});
+
+	it("skips records it cannot decode and keeps the rest", async () => {
+		const contents = await readArchive(
+			Buffer.concat([
+				record(
+					"https://shop.test/broken-gzip",
+					htmlResponse("not gzip at all", ["Content-Encoding: gzip"]),
+				),
+				record(
+					"https://shop.test/bad-redirect",
+					"HTTP/1.1 302 Found\r\nLocation: http://[bad\r\n\r\n",
+				),
+				record("https://shop.test/", htmlResponse("<h1>Home</h1>")),
+			]),
+		);
+
+		expect(contents.documents.map((doc) => doc.url)).toEqual([
+			"https://shop.test/",
+		]);
+		expect(contents.redirects).toEqual([]);
+		expect(console.warn).toHaveBeenCalledTimes(2);
+	});
+
+	it("reads the intact records of a truncated .warc.gz", async () => {
+		// Each record is its own gzip member, as WARC writers produce them
+		const archive = Buffer.concat([
+			gzipSync(record("https://shop.test/", htmlResponse("<h1>Home</h1>"))),
+			gzipSync(
+				record("https://shop.test/about", htmlResponse("<h1>About</h1>")),
+			),
+		]);
+
+		const contents = await readArchive(
+			archive.subarray(0, archive.length - 10),
+			"site.warc.gz",
+		);
+
+		expect(contents.documents[0].url).toBe("https://shop.test/");
+		expect(console.warn).toHaveBeenCalled();
+	});
+});
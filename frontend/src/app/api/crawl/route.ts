@@ -9,7 +9,13 @@ const execAsync = promisify(exec);
 export async function POST(request: NextRequest) {
 	try {
 		const body = await request.json();
-		const { startUrl, maxDepth = 3, maxPages = 50, credentials } = body;
+		const {
+			startUrl,
+			maxDepth = 3,
+			maxPages = 50,
+			credentials,
+			screenshots,
+		} = body;
 
 		if (!startUrl) {
 			return NextResponse.json(
@@ -28,7 +34,13 @@ export async function POST(request: NextRequest) {
 		}
 
 		// Build command
-		const command = `cd "${backendPath}" && npm start "${startUrl}" ${maxDepth} ${maxPages}`;
+		const screenshotsFlag =
+			screenshots === "key"
+				? " -- --screenshots=key"
+				: screenshots === "all"
+					? " -- --screenshots"
+					: "";
+		const command = `cd "${backendPath}" && npm start "${startUrl}" ${maxDepth} ${maxPages}${screenshotsFlag}`;
 
 		console.log("🚀 Executing command:", command);
 
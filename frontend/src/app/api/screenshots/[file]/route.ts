@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import path from "path";
+import fs from "fs/promises";
+
+const CONTENT_TYPES: Record<string, string> = {
+	".png": "image/png",
+	".jpg": "image/jpeg",
+};
+
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: { file: string } },
+) {
+	// Only content-addressed names written by the crawler, never arbitrary paths
+	if (!/^[a-f0-9]+\.(png|jpg)$/.test(params.file)) {
+		return NextResponse.json({ error: "Invalid file name" }, { status: 400 });
+	}
+
+	const screenshotPath = path.join(
+		process.cwd(),
+		"..",
+		"backend",
+		"screenshots",
+		params.file,
+	);
+
+	try {
+		const image = await fs.readFile(screenshotPath);
+		return new NextResponse(image, {
+			headers: {
+				"Content-Type": CONTENT_TYPES[path.extname(params.file)],
+				// The name is the content hash, so the file never changes
+				"Cache-Control": "public, max-age=31536000, immutable",
+			},
+		});
+	} catch (error) {
+		return NextResponse.json(
+			{ error: "Screenshot not found" },
+			{ status: 404 },
+		);
+	}
+}
+
+export const dynamic = "force-dynamic";
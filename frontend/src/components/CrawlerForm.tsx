@@ -15,6 +15,7 @@ export default function CrawlerForm({ onCrawl, isLoading }: CrawlerFormProps) {
 	const [username, setUsername] = useState("");
 	const [password, setPassword] = useState("");
 	const [loginUrl, setLoginUrl] = useState("");
+	const [captureScreenshots, setCaptureScreenshots] = useState(false);
 
 	const [constraints, setConstraints] = useState({
 		maxDepth: 3,
@@ -37,6 +38,7 @@ export default function CrawlerForm({ onCrawl, isLoading }: CrawlerFormProps) {
 			maxDepth: constraints.maxDepth,
 			maxPages: constraints.maxPages,
 			constraints,
+			screenshots: captureScreenshots ? "key" : undefined,
 		};
 
 		if (showAuth && username && password) {
@@ -110,6 +112,18 @@ export default function CrawlerForm({ onCrawl, isLoading }: CrawlerFormProps) {
 					</div>
 				</div>
 
+				<label className="flex items-center">
+					<input
+						type="checkbox"
+						checked={captureScreenshots}
+						onChange={(e) => setCaptureScreenshots(e.target.checked)}
+						className="mr-2"
+					/>
+					<span className="text-xs text-gray-600">
+						📸 Capture page screenshots
+					</span>
+				</label>
+
 				{/* Start Crawl Button */}
 				<button
 					type="submit"
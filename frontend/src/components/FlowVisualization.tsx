@@ -109,6 +109,14 @@ export default function FlowVisualization({ data }: FlowVisualizationProps) {
 					data: {
 						label: (
 							<div className="text-center px-2">
+								{node.thumbnail && (
+									<img
+										src={`/api/screenshots/${node.thumbnail.split("/").pop()}`}
+										alt={node.pageTitle || node.label}
+										className="mb-2 rounded border border-gray-200"
+										style={{ width: "200px" }}
+									/>
+								)}
 								<div
 									className="font-semibold text-sm"
 									style={{
@@ -156,6 +164,8 @@ export default function FlowVisualization({ data }: FlowVisualizationProps) {
 					style: {
 						stroke: "#94a3b8",
 						strokeWidth: Math.min(edge.weight || 1, 3),
+						// Form submissions are dashed to tell them apart from links
+						strokeDasharray: edge.kind === "form" ? "6 4" : undefined,
 					},
 					markerEnd: {
 						type: MarkerType.ArrowClosed,
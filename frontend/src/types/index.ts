@@ -7,6 +7,7 @@ export interface CrawlRequest {
 		password: string;
 		loginUrl?: string;
 	};
+	screenshots?: "all" | "key";
 	constraints?: {
 		maxCrawlDurationMs?: number;
 		requestTimeoutMs?: number;
@@ -31,6 +32,8 @@ export interface FlowNode {
 	type: "entry" | "content" | "form" | "transaction" | "exit";
 	depth: number;
 	pageTitle: string;
+	thumbnail?: string;
+	screenshot?: string;
 }
 
 export interface FlowEdge {
@@ -39,6 +42,7 @@ export interface FlowEdge {
 	target: string;
 	weight: number;
 	label?: string;
+	kind?: "link" | "form";
 }
 
 export interface CrawlResponse {